@@ -2,22 +2,47 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
-contract ImNotArtNFT is ERC1155, Ownable {
+contract ImNotArtNFT is ERC1155, ERC2981, Ownable, EIP712 {
     using Strings for uint256;
     
+    // Platform cap on artist royalties: 15% (basis points)
+    uint96 public constant MAX_ROYALTY_BPS = 1500;
+    
+    // EIP-712 type of a signed mint voucher
+    bytes32 public constant MINT_VOUCHER_TYPEHASH = keccak256(
+        "MintVoucher(uint256 tokenId,address recipient,uint256 amount,uint256 expiry,uint256 nonce)"
+    );
+    
     uint256 private _tokenIdCounter;
     
+    // Key whose EIP-712 signatures authorize redeem(); defaults to the owner
+    address public voucherSigner;
+    
+    // Voucher nonces already redeemed, so each voucher mints once
+    mapping(uint256 => bool) public voucherRedeemed;
+    
     struct TokenInfo {
         address artist;
         uint256 maxSupply;
         uint256 currentSupply;
-        uint256 royaltyPercentage; // 10% = 1000 (basis points)
+        uint256 royaltyPercentage; // Basis points, 10% = 1000
         string metadataURI;
     }
     
+    struct MintVoucher {
+        uint256 tokenId;
+        address recipient;
+        uint256 amount;
+        uint256 expiry; // Unix timestamp after which the voucher can't be redeemed
+        uint256 nonce;
+    }
+    
     mapping(uint256 => TokenInfo) public tokenInfo;
     
     event TokenMinted(
@@ -34,25 +59,51 @@ contract ImNotArtNFT is ERC1155, Ownable {
         string metadataURI
     );
     
-    constructor(address initialOwner) ERC1155("https://imnotart.com/api/metadata/{id}") Ownable(initialOwner) {
+    event VoucherRedeemed(
+        uint256 indexed nonce,
+        uint256 indexed tokenId,
+        address indexed recipient,
+        uint256 amount
+    );
+    
+    event VoucherSignerUpdated(address indexed signer);
+    
+    constructor(address initialOwner)
+        ERC1155("https://imnotart.com/api/metadata/{id}")
+        Ownable(initialOwner)
+        EIP712("ImNotArtNFT", "1")
+    {
         _tokenIdCounter = 1;
+        voucherSigner = initialOwner;
+    }
+    
+    function setVoucherSigner(address signer) external onlyOwner {
+        require(signer != address(0), "Invalid signer");
+        voucherSigner = signer;
+        emit VoucherSignerUpdated(signer);
     }
     
     function createToken(
         address artist,
         uint256 maxSupply,
-        string memory metadataURI
+        string memory metadataURI,
+        uint96 royaltyBps
     ) external onlyOwner returns (uint256) {
+        require(royaltyBps <= MAX_ROYALTY_BPS, "Royalty exceeds platform cap");
+        
         uint256 tokenId = _tokenIdCounter++;
         
         tokenInfo[tokenId] = TokenInfo({
             artist: artist,
             maxSupply: maxSupply,
             currentSupply: 0,
-            royaltyPercentage: 1000, // 10%
+            royaltyPercentage: royaltyBps,
             metadataURI: metadataURI
         });
         
+        // EIP-2981: marketplaces read the artist's royalty through royaltyInfo
+        _setTokenRoyalty(tokenId, artist, royaltyBps);
+        
         emit TokenCreated(tokenId, artist, maxSupply, metadataURI);
         return tokenId;
     }
@@ -62,6 +113,49 @@ contract ImNotArtNFT is ERC1155, Ownable {
         address buyer,
         uint256 amount
     ) external onlyOwner {
+        _mintEdition(tokenId, buyer, amount);
+    }
+    
+    // Mints several token IDs to several buyers in one transaction.
+    // Entry i mints amounts[i] of tokenIds[i] to buyers[i]; any failing entry reverts the batch.
+    function mintBatch(
+        uint256[] calldata tokenIds,
+        address[] calldata buyers,
+        uint256[] calldata amounts
+    ) external onlyOwner {
+        require(
+            tokenIds.length == buyers.length && buyers.length == amounts.length,
+            "Array length mismatch"
+        );
+        
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            _mintEdition(tokenIds[i], buyers[i], amounts[i]);
+        }
+    }
+    
+    // Mints a voucher signed off-chain by the voucher signer. Anyone may submit it and pay the
+    // gas, but the edition always goes to the voucher's recipient.
+    function redeem(MintVoucher calldata voucher, bytes calldata signature) external {
+        require(block.timestamp <= voucher.expiry, "Voucher expired");
+        require(!voucherRedeemed[voucher.nonce], "Voucher already redeemed");
+        
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            MINT_VOUCHER_TYPEHASH,
+            voucher.tokenId,
+            voucher.recipient,
+            voucher.amount,
+            voucher.expiry,
+            voucher.nonce
+        )));
+        require(ECDSA.recover(digest, signature) == voucherSigner, "Invalid voucher signature");
+        
+        voucherRedeemed[voucher.nonce] = true;
+        _mintEdition(voucher.tokenId, voucher.recipient, voucher.amount);
+        
+        emit VoucherRedeemed(voucher.nonce, voucher.tokenId, voucher.recipient, voucher.amount);
+    }
+    
+    function _mintEdition(uint256 tokenId, address buyer, uint256 amount) internal {
         TokenInfo storage token = tokenInfo[tokenId];
         require(token.artist != address(0), "Token does not exist");
         require(token.currentSupply + amount <= token.maxSupply, "Exceeds max supply");
@@ -82,15 +176,22 @@ contract ImNotArtNFT is ERC1155, Ownable {
         return tokenInfo[tokenId];
     }
     
+    // Kept for existing callers; same answer as the EIP-2981 royaltyInfo
     function getRoyaltyInfo(uint256 tokenId, uint256 salePrice) 
         external 
         view 
         returns (address receiver, uint256 royaltyAmount) 
     {
-        TokenInfo memory token = tokenInfo[tokenId];
-        require(token.artist != address(0), "Token does not exist");
-        
-        royaltyAmount = (salePrice * token.royaltyPercentage) / 10000;
-        receiver = token.artist;
+        require(tokenInfo[tokenId].artist != address(0), "Token does not exist");
+        return royaltyInfo(tokenId, salePrice);
+    }
+    
+    function supportsInterface(bytes4 interfaceId)
+        public
+        view
+        override(ERC1155, ERC2981)
+        returns (bool)
+    {
+        return super.supportsInterface(interfaceId);
     }
 }
\ No newline at end of file
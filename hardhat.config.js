@@ -1,6 +1,41 @@
 require("@nomicfoundation/hardhat-ethers");
 require('dotenv').config({ path: '.env.local' });
 
+// Chains come from the shared registry, also read by the app and scripts/deploy.js
+const registry = require("./networks.json");
+
+const accounts = process.env.PRIVATE_KEY && process.env.PRIVATE_KEY.length === 66 ? [process.env.PRIVATE_KEY] : [];
+
+const networks = {};
+const customChains = [];
+const apiKey = {};
+
+for (const [name, network] of Object.entries(registry.networks)) {
+  if (name === "localhost") {
+    networks[name] = { url: network.rpcUrl, chainId: network.chainId };
+    continue;
+  }
+
+  networks[name] = {
+    url: (network.rpcUrlEnv && process.env[network.rpcUrlEnv]) || network.rpcUrl,
+    accounts,
+    chainId: network.chainId,
+    gasPrice: "auto"
+  };
+
+  if (network.explorerApiUrl) {
+    apiKey[name] = process.env[network.explorerApiKeyEnv] || "";
+    customChains.push({
+      network: name,
+      chainId: network.chainId,
+      urls: {
+        apiURL: network.explorerApiUrl,
+        browserURL: network.explorerUrl
+      }
+    });
+  }
+}
+
 module.exports = {
   solidity: {
     version: "0.8.24",
@@ -11,31 +46,9 @@ module.exports = {
       }
     }
   },
-  networks: {
-    base: {
-      url: process.env.NEXT_PUBLIC_BASE_RPC_URL || "https://sepolia.base.org",
-      accounts: process.env.PRIVATE_KEY && process.env.PRIVATE_KEY.length === 66 ? [process.env.PRIVATE_KEY] : [],
-      chainId: 84532,
-      gasPrice: "auto"
-    },
-    localhost: {
-      url: "http://127.0.0.1:8545",
-      chainId: 31337
-    }
-  },
+  networks,
   etherscan: {
-    apiKey: {
-      base: process.env.BASESCAN_API_KEY || ""
-    },
-    customChains: [
-      {
-        network: "base",
-        chainId: 84532,
-        urls: {
-          apiURL: "https://api-sepolia.basescan.org/api",
-          browserURL: "https://sepolia.basescan.org"
-        }
-      }
-    ]
+    apiKey,
+    customChains
   }
 };
\ No newline at end of file
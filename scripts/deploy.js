@@ -1,14 +1,27 @@
-const { ethers } = require("hardhat");
+const { ethers, network } = require("hardhat");
+const fs = require('fs');
+const path = require('path');
 require('dotenv').config({ path: '.env.local' });
 
+// Shared network registry; the deployed address is written back for the app to read
+const REGISTRY_PATH = path.join(__dirname, '..', 'networks.json');
+
 async function main() {
   // Check required environment variables
   if (!process.env.PRIVATE_KEY) {
     throw new Error("PRIVATE_KEY not found in .env.local file");
   }
 
+  const registry = JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf8'));
+  const networkConfig = registry.networks[network.name];
+  if (!networkConfig) {
+    throw new Error(`Network ${network.name} is not in networks.json`);
+  }
+
   const [deployer] = await ethers.getSigners();
   
+  console.log(`Deploying to ${networkConfig.name} (chain ${networkConfig.chainId})`);
+  
   console.log("Deploying contracts with the account:", deployer.address);
   
   const balance = await deployer.provider.getBalance(deployer.address);
@@ -31,15 +44,22 @@ async function main() {
   const contractAddress = await contract.getAddress();
   console.log("ImNotArtNFT deployed to:", contractAddress);
   
+  const receipt = await contract.deploymentTransaction().wait();
+  
+  // Record the deployment in the registry; the indexer starts reading at its block
+  networkConfig.contractAddress = contractAddress;
+  networkConfig.deployBlock = receipt.blockNumber;
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2) + '\n');
+  console.log(`Registry updated: networks.json -> ${network.name}`);
+  
   // Save deployment info
-  const fs = require('fs');
   const deploymentInfo = {
     address: contractAddress,
     deployer: deployer.address,
-    network: "base-sepolia",
-    chainId: 84532,
+    network: network.name,
+    chainId: networkConfig.chainId,
     timestamp: new Date().toISOString(),
-    blockNumber: await deployer.provider.getBlockNumber()
+    blockNumber: receipt.blockNumber
   };
   
   fs.writeFileSync('./deployment.json', JSON.stringify(deploymentInfo, null, 2));
@@ -49,11 +69,13 @@ async function main() {
   console.log("==================");
   console.log("Contract Address:", contractAddress);
   console.log("Deployer:", deployer.address);
-  console.log("Network: Base Sepolia");
-  console.log("Explorer:", `https://sepolia.basescan.org/address/${contractAddress}`);
+  console.log("Network:", networkConfig.name);
+  if (networkConfig.explorerUrl) {
+    console.log("Explorer:", `${networkConfig.explorerUrl}/address/${contractAddress}`);
+  }
   console.log("\nNext steps:");
-  console.log("1. Update CONTRACT_ADDRESS in .env.local");
-  console.log("2. Verify contract on Basescan (optional)");
+  console.log("1. Commit the updated networks.json");
+  console.log("2. Verify contract on the block explorer (optional)");
   console.log("3. Test contract functions");
 }
 
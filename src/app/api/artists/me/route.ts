@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storageService, ipfsToHttpUrl } from '@/lib/storage'
+import { getWalletSession, getSessionClient } from '@/lib/auth'
+
+const MAX_NAME_LENGTH = 255
+const MAX_BIO_LENGTH = 2000
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024 // 5MB
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getWalletSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      )
+    }
+
+    const { data: artist, error } = await getSessionClient(session)
+      .from('artists')
+      .select('*')
+      .eq('wallet_address', session.address)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Fetch artist error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch profile' },
+        { status: 500 }
+      )
+    }
+
+    // Artists without a row yet get an empty profile for their wallet
+    return NextResponse.json({
+      artist: artist || { wallet_address: session.address }
+    })
+
+  } catch (error) {
+    console.error('Get profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = getWalletSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to edit your profile' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const name = formData.get('name') as string | null
+    const email = formData.get('email') as string | null
+    const bio = formData.get('bio') as string | null
+    const avatar = formData.get('avatar') as File | null
+
+    const updates: Record<string, any> = {}
+
+    if (name !== null) {
+      if (!name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `Name must be 1-${MAX_NAME_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updates.name = name.trim()
+    }
+
+    if (email !== null) {
+      if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return NextResponse.json(
+          { error: 'Invalid email address' },
+          { status: 400 }
+        )
+      }
+      updates.email = email || null
+    }
+
+    if (bio !== null) {
+      if (bio.length > MAX_BIO_LENGTH) {
+        return NextResponse.json(
+          { error: `Bio must be under ${MAX_BIO_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updates.bio = bio || null
+    }
+
+    if (avatar && avatar.size > 0) {
+      if (!avatar.type.startsWith('image/')) {
+        return NextResponse.json(
+          { error: 'Avatar must be an image' },
+          { status: 400 }
+        )
+      }
+
+      if (avatar.size > MAX_AVATAR_SIZE) {
+        return NextResponse.json(
+          { error: 'Avatar must be less than 5MB' },
+          { status: 400 }
+        )
+      }
+
+      const avatarIpfsUrl = await storageService.uploadImage(avatar)
+      updates.avatar_url = ipfsToHttpUrl(avatarIpfsUrl)
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'No changes provided' },
+        { status: 400 }
+      )
+    }
+
+    updates.updated_at = new Date().toISOString()
+
+    const db = getSessionClient(session)
+
+    const { data: existing } = await db
+      .from('artists')
+      .select('id')
+      .eq('wallet_address', session.address)
+      .maybeSingle()
+
+    const { data: artist, error } = existing
+      ? await db
+          .from('artists')
+          .update(updates)
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await db
+          .from('artists')
+          .insert({ wallet_address: session.address, ...updates })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Profile update error:', error)
+      return NextResponse.json(
+        { error: 'Failed to update profile' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, artist })
+
+  } catch (error) {
+    console.error('Update profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { fakeDb, filterValue, type FakeQuery } from '@/test/fake-supabase'
+import { removeStoredFiles } from '@/lib/originals'
+import { DELETE } from './route'
+
+vi.mock('@/lib/supabase', () => import('@/test/fake-supabase'))
+vi.mock('@/lib/auth', async () => {
+  const { supabaseAdmin } = await import('@/test/fake-supabase')
+  return {
+    getWalletSession: () => ({ address: '0xowner' }),
+    getSessionClient: () => supabaseAdmin
+  }
+})
+vi.mock('@/lib/storage', () => ({}))
+vi.mock('@/lib/originals', () => ({ removeStoredFiles: vi.fn() }))
+
+let holds: number
+let pendingPurchases: number
+
+async function deleteArtwork() {
+  const response = await DELETE(
+    new NextRequest('http://localhost/api/artworks/5', { method: 'DELETE' }),
+    { params: { id: '5' } }
+  )
+  return { status: response.status, body: await response.json() }
+}
+
+function isCount(query: FakeQuery, table: string) {
+  return query.table === table && query.action === 'select' && filterValue(query, 'eq', 'artwork_id') === 5
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  fakeDb.reset()
+  holds = 0
+  pendingPurchases = 0
+
+  fakeDb.respond = query => {
+    if (isCount(query, 'edition_reservations')) {
+      return { count: holds }
+    }
+    if (isCount(query, 'purchases')) {
+      return { count: pendingPurchases }
+    }
+    if (query.table === 'artworks' && query.action === 'select') {
+      return {
+        data: {
+          id: 5,
+          current_editions: 0,
+          artist: { wallet_address: '0xowner' },
+          original_path: '1/abc.png',
+          wallpaper_variants: [{ key: 'phone', path: '1/abc-phone.jpg' }]
+        }
+      }
+    }
+    return undefined
+  }
+})
+
+describe('DELETE /api/artworks/[id]', () => {
+  it('deletes the artwork and then its stored files', async () => {
+    expect(await deleteArtwork()).toEqual({ status: 200, body: { success: true } })
+
+    expect(fakeDb.find('artworks', 'delete')).toHaveLength(1)
+    expect(removeStoredFiles).toHaveBeenCalledWith(['1/abc.png', '1/abc-phone.jpg'])
+  })
+
+  it('refuses while a checkout holds an edition', async () => {
+    holds = 1
+
+    const { status } = await deleteArtwork()
+
+    expect(status).toBe(409)
+    expect(fakeDb.find('artworks', 'delete')).toHaveLength(0)
+    expect(removeStoredFiles).not.toHaveBeenCalled()
+  })
+
+  it('refuses while a paid checkout is still pending', async () => {
+    pendingPurchases = 1
+
+    expect((await deleteArtwork()).status).toBe(409)
+    expect(fakeDb.find('artworks', 'delete')).toHaveLength(0)
+  })
+
+  it('keeps the files when the delete fails', async () => {
+    const respond = fakeDb.respond
+    fakeDb.respond = query => query.action === 'delete' ? { error: { message: 'boom' } } : respond(query)
+
+    expect((await deleteArtwork()).status).toBe(500)
+    expect(removeStoredFiles).not.toHaveBeenCalled()
+  })
+})
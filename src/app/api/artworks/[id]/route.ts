@@ -0,0 +1,321 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storageService, ipfsToHttpUrl, httpToIpfsUrl, buildArtworkMetadata } from '@/lib/storage'
+import { getWalletSession, getSessionClient } from '@/lib/auth'
+import { isArtworkStatus, canTransition, validateSchedule } from '@/lib/artwork-status'
+import { parseRoyaltyPercent, MAX_ROYALTY_BPS } from '@/lib/royalty'
+import { removeStoredFiles } from '@/lib/originals'
+import { supabaseAdmin, PUBLIC_ARTWORK_COLUMNS, type Artist, type Artwork } from '@/lib/supabase'
+
+// Fields that are baked into the pinned NFT metadata
+const METADATA_FIELDS: (keyof Artwork)[] = ['title', 'description', 'price_usd', 'max_editions', 'category', 'tags']
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = getWalletSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to edit artworks' },
+        { status: 401 }
+      )
+    }
+
+    const db = getSessionClient(session)
+    const body = await request.json()
+
+    // own_artworks only has the session wallet's artworks
+    const { data: artwork } = await db
+      .from('own_artworks')
+      .select(`
+        *,
+        artist:artists(*)
+      `)
+      .eq('id', params.id)
+      .maybeSingle<Artwork>()
+
+    if (!artwork || artwork.artist?.wallet_address !== session.address) {
+      return NextResponse.json(
+        { error: 'Artwork not found' },
+        { status: 404 }
+      )
+    }
+
+    const updates: Partial<Artwork> = {}
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || !body.title.trim()) {
+        return NextResponse.json(
+          { error: 'Title cannot be empty' },
+          { status: 400 }
+        )
+      }
+      updates.title = body.title.trim()
+    }
+
+    if (body.description !== undefined) {
+      updates.description = body.description || null
+    }
+
+    if (body.price !== undefined) {
+      const price = parseFloat(body.price)
+      if (isNaN(price) || price < 0.01) {
+        return NextResponse.json(
+          { error: 'Price must be at least $0.01' },
+          { status: 400 }
+        )
+      }
+      updates.price_usd = price
+    }
+
+    if (body.maxEditions !== undefined) {
+      const maxEditions = parseInt(body.maxEditions)
+      if (isNaN(maxEditions) || maxEditions < 1) {
+        return NextResponse.json(
+          { error: 'Max editions must be at least 1' },
+          { status: 400 }
+        )
+      }
+      if (maxEditions < artwork.current_editions) {
+        return NextResponse.json(
+          { error: `Max editions cannot be less than the ${artwork.current_editions} already sold` },
+          { status: 400 }
+        )
+      }
+      if (artwork.token_id && maxEditions !== artwork.max_editions) {
+        return NextResponse.json(
+          { error: 'Max editions are fixed once the token is created on-chain' },
+          { status: 409 }
+        )
+      }
+      updates.max_editions = maxEditions
+    }
+
+    if (body.royalty !== undefined) {
+      const royaltyBps = parseRoyaltyPercent(body.royalty)
+      if (royaltyBps === null) {
+        return NextResponse.json(
+          { error: `Royalty must be between 0% and ${MAX_ROYALTY_BPS / 100}%` },
+          { status: 400 }
+        )
+      }
+      if (artwork.token_id && royaltyBps !== artwork.royalty_bps) {
+        return NextResponse.json(
+          { error: 'Royalty is fixed once the token is created on-chain' },
+          { status: 409 }
+        )
+      }
+      updates.royalty_bps = royaltyBps
+    }
+
+    if (body.category !== undefined) {
+      updates.category = body.category || null
+    }
+
+    if (body.tags !== undefined) {
+      const tags: string[] = Array.isArray(body.tags)
+        ? body.tags
+        : String(body.tags).split(',')
+      updates.tags = tags.map(tag => tag.trim()).filter(Boolean)
+    }
+
+    if (body.status !== undefined || body.publishAt !== undefined) {
+      const status = body.status ?? artwork.status
+      if (!isArtworkStatus(status) || !canTransition(artwork.status, status)) {
+        return NextResponse.json(
+          { error: `Cannot move artwork from ${artwork.status} to ${status}` },
+          { status: 400 }
+        )
+      }
+
+      const publishAt = body.publishAt ?? artwork.publish_at
+      const scheduleError = validateSchedule(status, publishAt)
+      if (scheduleError) {
+        return NextResponse.json(
+          { error: scheduleError },
+          { status: 400 }
+        )
+      }
+
+      updates.status = status
+
+      // publish_at is the go-live time: planned while scheduled, actual once published
+      if (status === 'scheduled') {
+        updates.publish_at = new Date(publishAt).toISOString()
+      } else if (status === 'published' && artwork.status !== 'published') {
+        updates.publish_at = new Date().toISOString()
+      } else if (status === 'draft') {
+        updates.publish_at = null
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'No changes provided' },
+        { status: 400 }
+      )
+    }
+
+    // Re-pin metadata when any field it contains has changed
+    const metadataChanged = METADATA_FIELDS.some(
+      field => field in updates && JSON.stringify(updates[field]) !== JSON.stringify(artwork[field])
+    )
+
+    if (metadataChanged) {
+      const merged = { ...artwork, ...updates }
+      const metadata = buildArtworkMetadata({
+        title: merged.title,
+        description: merged.description,
+        imageIpfsUrl: httpToIpfsUrl(artwork.image_url),
+        category: merged.category,
+        tags: merged.tags,
+        maxEditions: merged.max_editions,
+        priceUsd: merged.price_usd,
+        artistName: artwork.artist?.name || 'Unknown Artist'
+      })
+
+      const metadataIpfsUrl = await storageService.uploadMetadata(metadata)
+      updates.metadata_url = ipfsToHttpUrl(metadataIpfsUrl)
+
+      if (artwork.token_id) {
+        console.warn(`Artwork ${artwork.id} metadata re-pinned, but token ${artwork.token_id} keeps its on-chain URI`)
+      }
+    }
+
+    updates.updated_at = new Date().toISOString()
+
+    const { data: updated, error: updateError } = await db
+      .from('artworks')
+      .update(updates)
+      .eq('id', artwork.id)
+      .select(PUBLIC_ARTWORK_COLUMNS)
+      .single()
+
+    if (updateError) {
+      console.error('Artwork update error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update artwork' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, artwork: updated })
+
+  } catch (error) {
+    console.error('Update artwork error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = getWalletSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to delete artworks' },
+        { status: 401 }
+      )
+    }
+
+    const db = getSessionClient(session)
+
+    const { data: artwork } = await db
+      .from('artworks')
+      .select(`
+        id,
+        current_editions,
+        artist:artists!inner(wallet_address)
+      `)
+      .eq('id', params.id)
+      .maybeSingle<Pick<Artwork, 'id' | 'current_editions'> & { artist: Pick<Artist, 'wallet_address'> }>()
+
+    if (!artwork || artwork.artist.wallet_address !== session.address) {
+      return NextResponse.json(
+        { error: 'Artwork not found' },
+        { status: 404 }
+      )
+    }
+
+    // Purchases cascade on delete, so sold artworks can only be unpublished
+    if (artwork.current_editions > 0) {
+      return NextResponse.json(
+        { error: 'Artworks with sales cannot be deleted. Unpublish it instead.' },
+        { status: 409 }
+      )
+    }
+
+    // A checkout being paid holds an edition, and its purchase is pending until the webhook claims it
+    const [holds, pendingPurchases] = await Promise.all([
+      supabaseAdmin
+        .from('edition_reservations')
+        .select('id', { count: 'exact', head: true })
+        .eq('artwork_id', artwork.id)
+        .eq('status', 'held')
+        .gt('expires_at', new Date().toISOString()),
+      supabaseAdmin
+        .from('purchases')
+        .select('id', { count: 'exact', head: true })
+        .eq('artwork_id', artwork.id)
+        .eq('payment_status', 'pending')
+    ])
+
+    const checkoutError = holds.error || pendingPurchases.error
+    if (checkoutError) {
+      throw new Error(`Error checking checkouts for artwork ${artwork.id}: ${checkoutError.message}`)
+    }
+
+    if (holds.count || pendingPurchases.count) {
+      return NextResponse.json(
+        { error: 'Someone is checking out this artwork. Try again once the checkout finishes.' },
+        { status: 409 }
+      )
+    }
+
+    // Stored file locations aren't readable by artists
+    const { data: files, error: filesError } = await supabaseAdmin
+      .from('artworks')
+      .select('original_path, wallpaper_variants')
+      .eq('id', artwork.id)
+      .maybeSingle<Pick<Artwork, 'original_path' | 'wallpaper_variants'>>()
+
+    if (filesError) {
+      throw new Error(`Error loading files for artwork ${artwork.id}: ${filesError.message}`)
+    }
+
+    const { error: deleteError } = await db
+      .from('artworks')
+      .delete()
+      .eq('id', artwork.id)
+
+    if (deleteError) {
+      console.error('Artwork delete error:', deleteError)
+      return NextResponse.json(
+        { error: 'Failed to delete artwork' },
+        { status: 500 }
+      )
+    }
+
+    if (files) {
+      await removeStoredFiles([
+        ...(files.original_path ? [files.original_path] : []),
+        ...(files.wallpaper_variants || []).map(variant => variant.path)
+      ])
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Delete artwork error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,27 +1,85 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
-import { storageService, ipfsToHttpUrl, type NFTMetadata } from '@/lib/storage'
+import { supabaseAdmin, PUBLIC_ARTIST_COLUMNS, PUBLIC_ARTWORK_COLUMNS } from '@/lib/supabase'
+import { storageService, ipfsToHttpUrl, buildArtworkMetadata } from '@/lib/storage'
+import { getWalletSession, getSessionClient } from '@/lib/auth'
+import { isArtworkStatus, validateSchedule } from '@/lib/artwork-status'
+import { parseRoyaltyPercent, DEFAULT_ROYALTY_BPS, MAX_ROYALTY_BPS } from '@/lib/royalty'
+import { applyKeyset, decodeCursor, parsePageLimit, toPage } from '@/lib/pagination'
+import { getDefaultChainId } from '@/lib/networks'
+import { uploadOriginal, removeOriginal } from '@/lib/originals'
+import { createArtworkPreviews, type ArtworkPreviews } from '@/lib/images'
+import { parseFocalCoordinate, DEFAULT_FOCAL_POINT } from '@/lib/wallpapers'
+import { enqueueJob } from '@/lib/jobs'
 
 export async function POST(request: NextRequest) {
   try {
+    // Only a signed-in wallet may upload, and only as itself
+    const session = getWalletSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to upload artworks' },
+        { status: 401 }
+      )
+    }
+
     const formData = await request.formData()
     
-    const walletAddress = formData.get('walletAddress') as string
+    const walletAddress = session.address
+    const db = getSessionClient(session)
     const title = formData.get('title') as string
     const description = formData.get('description') as string
     const price = formData.get('price') as string
     const maxEditions = formData.get('maxEditions') as string
     const category = formData.get('category') as string
     const tags = formData.get('tags') as string
+    const status = (formData.get('status') as string) || 'published'
+    const publishAt = formData.get('publishAt') as string
+    const royalty = formData.get('royalty') as string
+    const focalX = formData.get('focalX') as string
+    const focalY = formData.get('focalY') as string
     const file = formData.get('file') as File
 
-    if (!walletAddress || !title || !price || !file) {
+    if (!title || !price || !file) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
+    if (!isArtworkStatus(status) || status === 'archived') {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      )
+    }
+
+    const scheduleError = validateSchedule(status, publishAt)
+    if (scheduleError) {
+      return NextResponse.json(
+        { error: scheduleError },
+        { status: 400 }
+      )
+    }
+
+    const royaltyBps = royalty ? parseRoyaltyPercent(royalty) : DEFAULT_ROYALTY_BPS
+    if (royaltyBps === null) {
+      return NextResponse.json(
+        { error: `Royalty must be between 0% and ${MAX_ROYALTY_BPS / 100}%` },
+        { status: 400 }
+      )
+    }
+
+    const focal = {
+      x: focalX ? parseFocalCoordinate(focalX) : DEFAULT_FOCAL_POINT.x,
+      y: focalY ? parseFocalCoordinate(focalY) : DEFAULT_FOCAL_POINT.y
+    }
+    if (focal.x === null || focal.y === null) {
+      return NextResponse.json(
+        { error: 'Focal point must be within the image' },
+        { status: 400 }
+      )
+    }
+
     // Validate file type and size
     if (!file.type.startsWith('image/')) {
       return NextResponse.json(
@@ -37,23 +95,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // The site only ever shows watermarked, downscaled copies
+    let previews: ArtworkPreviews
+    try {
+      previews = await createArtworkPreviews(file)
+    } catch (error) {
+      console.error('Preview generation error:', error)
+      return NextResponse.json(
+        { error: 'Could not read the image file' },
+        { status: 400 }
+      )
+    }
+
     // First, ensure artist exists in database
-    const { data: existingArtist } = await supabaseAdmin
+    const { data: existingArtist } = await db
       .from('artists')
-      .select('id')
+      .select('id, name')
       .eq('wallet_address', walletAddress)
-      .single()
+      .maybeSingle()
 
-    let artistId = existingArtist?.id
+    let artist = existingArtist
 
-    if (!artistId) {
-      const { data: newArtist, error: artistError } = await supabaseAdmin
+    if (!artist) {
+      const { data: newArtist, error: artistError } = await db
         .from('artists')
         .insert({
           wallet_address: walletAddress,
           name: `Artist ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}`
         })
-        .select('id')
+        .select('id, name')
         .single()
 
       if (artistError) {
@@ -63,73 +133,91 @@ export async function POST(request: NextRequest) {
           { status: 500 }
         )
       }
-      artistId = newArtist.id
+      artist = newArtist
     }
 
-    // Upload image to IPFS
-    const imageIpfsUrl = await storageService.uploadImage(file)
+    // Keep the original private for buyers' downloads
+    const original = await uploadOriginal(artist.id, file)
+
+    // Pin the public previews; the NFT metadata shows the watermarked preview, never the original
+    const imageIpfsUrl = await storageService.uploadImage(previews.preview)
     const imageUrl = ipfsToHttpUrl(imageIpfsUrl)
+    const thumbnailUrl = ipfsToHttpUrl(await storageService.uploadImage(previews.thumbnail))
 
     // Create NFT metadata
-    const metadata: NFTMetadata = {
-      name: title,
-      description: description || `NFT wallpaper by artist`,
-      image: imageIpfsUrl,
-      external_url: `${process.env.NEXT_PUBLIC_APP_URL}/artwork/`, // Will be updated after creation
-      attributes: [
-        {
-          trait_type: "Category",
-          value: category || "Wallpaper"
-        },
-        {
-          trait_type: "Max Editions",
-          value: parseInt(maxEditions)
-        },
-        {
-          trait_type: "Price (USD)",
-          value: parseFloat(price)
-        }
-      ],
-      properties: {
-        category: category || undefined,
-        tags: tags ? tags.split(',').map(tag => tag.trim()) : undefined,
-        artist: `Artist ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}`
-      }
-    }
+    const metadata = buildArtworkMetadata({
+      title,
+      description,
+      imageIpfsUrl,
+      category,
+      tags: tags ? tags.split(',').map(tag => tag.trim()) : undefined,
+      maxEditions: parseInt(maxEditions),
+      priceUsd: parseFloat(price),
+      artistName: artist.name || `Artist ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}`
+    })
 
     // Upload metadata to IPFS
     const metadataIpfsUrl = await storageService.uploadMetadata(metadata)
     const metadataUrl = ipfsToHttpUrl(metadataIpfsUrl)
 
     // Create artwork record
-    const { data: artwork, error: artworkError } = await supabaseAdmin
+    const { data: artwork, error: artworkError } = await db
       .from('artworks')
       .insert({
-        artist_id: artistId,
+        artist_id: artist.id,
+        chain_id: getDefaultChainId(),
         title: title,
         description: description,
         price_usd: parseFloat(price),
         max_editions: parseInt(maxEditions),
+        royalty_bps: royaltyBps,
         category: category || null,
         tags: tags ? tags.split(',').map(tag => tag.trim()) : [],
         image_url: imageUrl,
-        metadata_url: metadataUrl
+        thumbnail_url: thumbnailUrl,
+        metadata_url: metadataUrl,
+        original_path: original.path,
+        original_content_type: original.contentType,
+        original_size: original.size,
+        focal_x: focal.x,
+        focal_y: focal.y,
+        status,
+        publish_at: status === 'scheduled'
+          ? new Date(publishAt).toISOString()
+          : status === 'published' ? new Date().toISOString() : null
       })
-      .select()
+      .select(PUBLIC_ARTWORK_COLUMNS)
       .single()
 
     if (artworkError) {
       console.error('Artwork creation error:', artworkError)
+      await removeOriginal(original.path)
       return NextResponse.json(
         { error: 'Failed to create artwork' },
         { status: 500 }
       )
     }
 
+    // Device crops are slow to render, so they're made in the background. Without the job
+    // buyers would never get them, so the upload is undone rather than half-saved.
+    try {
+      await enqueueJob('create_wallpapers', { artworkId: artwork.id })
+    } catch (error) {
+      console.error(`Error queuing wallpapers for artwork ${artwork.id}:`, error)
+      await supabaseAdmin.from('artworks').delete().eq('id', artwork.id)
+      await removeOriginal(original.path)
+      return NextResponse.json(
+        { error: 'Failed to queue wallpaper sizes. Please try uploading again.' },
+        { status: 500 }
+      )
+    }
+
     return NextResponse.json({ 
       success: true, 
       artwork,
-      message: 'Artwork uploaded successfully!' 
+      message: status === 'published'
+        ? 'Artwork uploaded successfully!'
+        : `Artwork saved as ${status}`
     })
 
   } catch (error) {
@@ -144,36 +232,41 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const url = new URL(request.url)
-    const walletAddress = url.searchParams.get('wallet')
-    const limit = parseInt(url.searchParams.get('limit') || '10')
-    const offset = parseInt(url.searchParams.get('offset') || '0')
+    const walletAddress = url.searchParams.get('wallet')?.toLowerCase()
+    const limit = parsePageLimit(url.searchParams.get('limit'), 10)
+    const cursor = decodeCursor(url.searchParams.get('cursor'))
 
-    let query = supabaseAdmin
+    // An artist viewing their own wallet reads through RLS and sees unpublished work too
+    const session = getWalletSession(request)
+    const isOwner = !!walletAddress && session?.address === walletAddress
+    const db = isOwner ? getSessionClient(session!) : supabaseAdmin
+    let query = db
       .from('artworks')
       .select(`
-        *,
-        artist:artists(*)
+        ${PUBLIC_ARTWORK_COLUMNS},
+        artist:artists(${PUBLIC_ARTIST_COLUMNS})
       `)
-      .eq('is_active', true)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1)
+
+    if (!isOwner) {
+      query = query.eq('status', 'published')
+    }
 
     if (walletAddress) {
       // Get artworks by specific artist
-      const { data: artist } = await supabaseAdmin
+      const { data: artist } = await db
         .from('artists')
         .select('id')
         .eq('wallet_address', walletAddress)
         .single()
 
       if (!artist) {
-        return NextResponse.json({ artworks: [] })
+        return NextResponse.json({ artworks: [], nextCursor: null })
       }
 
       query = query.eq('artist_id', artist.id)
     }
 
-    const { data: artworks, error } = await query
+    const { data: rows, error } = await applyKeyset(query, 'created_at', false, cursor, limit)
 
     if (error) {
       console.error('Fetch artworks error:', error)
@@ -183,7 +276,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({ artworks: artworks || [] })
+    const { items: artworks, nextCursor } = toPage(rows || [], 'created_at', limit)
+
+    return NextResponse.json({ artworks, nextCursor })
 
   } catch (error) {
     console.error('Get artworks error:', error)
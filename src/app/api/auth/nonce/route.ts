@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { createNonce } from '@/lib/auth'
+
+export async function GET() {
+  try {
+    const nonce = await createNonce()
+    return NextResponse.json({ nonce })
+  } catch (error) {
+    console.error('Nonce error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
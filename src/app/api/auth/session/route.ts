@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWalletSession, clearSessionCookie } from '@/lib/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getWalletSession(request)
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      address: session.address,
+      expiresAt: new Date(session.expiresAt).toISOString()
+    })
+
+  } catch (error) {
+    console.error('Session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySiweSignIn, setSessionCookie, AuthError } from '@/lib/auth'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { message, signature } = await request.json()
+
+    if (!message || !signature) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const address = await verifySiweSignIn(message, signature, request.nextUrl.host)
+
+    const response = NextResponse.json({
+      address: address.toLowerCase()
+    })
+    setSessionCookie(response, address)
+    return response
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      )
+    }
+
+    console.error('Sign-in error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { stripe } from '@/lib/stripe'
 import { supabaseAdmin } from '@/lib/supabase'
+import {
+  reserveEdition,
+  attachReservation,
+  releaseReservation,
+  CHECKOUT_SESSION_TTL_SECONDS
+} from '@/lib/reservations'
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,48 +29,61 @@ export async function POST(request: NextRequest) {
       .eq('id', artworkId)
       .single()
 
-    if (artworkError || !artwork) {
+    if (artworkError || !artwork || artwork.status !== 'published') {
       return NextResponse.json(
         { error: 'Artwork not found' },
         { status: 404 }
       )
     }
 
-    // Check if artwork is still available
-    if (artwork.current_editions >= artwork.max_editions) {
+    // Hold an edition for this buyer; sold editions and other open checkouts count against supply
+    const reservationId = await reserveEdition(artwork.id, buyerEmail)
+    if (!reservationId) {
       return NextResponse.json(
         { error: 'Artwork sold out' },
         { status: 400 }
       )
     }
 
-    // Create Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: artwork.title,
-              description: artwork.description || 'NFT Wallpaper',
-              images: [artwork.image_url],
+    // Create Stripe checkout session, expiring with the hold
+    let session
+
+    try {
+      session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: artwork.title,
+                description: artwork.description || 'NFT Wallpaper',
+                images: [artwork.image_url],
+              },
+              unit_amount: Math.round(artwork.price_usd * 100), // Convert to cents
             },
-            unit_amount: Math.round(artwork.price_usd * 100), // Convert to cents
+            quantity: 1,
           },
-          quantity: 1,
+        ],
+        mode: 'payment',
+        success_url: `${process.env.NEXT_PUBLIC_APP_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/artwork/${artworkId}`,
+        customer_email: buyerEmail,
+        expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_TTL_SECONDS,
+        metadata: {
+          artworkId: artworkId.toString(),
+          buyerEmail,
+          buyerWalletAddress: buyerWalletAddress || '',
+          reservationId: reservationId.toString(),
         },
-      ],
-      mode: 'payment',
-      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/artwork/${artworkId}`,
-      customer_email: buyerEmail,
-      metadata: {
-        artworkId: artworkId.toString(),
-        buyerEmail,
-        buyerWalletAddress: buyerWalletAddress || '',
-      },
-    })
+      })
+
+      await attachReservation(reservationId, session.id)
+    } catch (error) {
+      // Don't leave the edition held by a checkout that never opened
+      await releaseReservation({ id: reservationId })
+      throw error
+    }
 
     return NextResponse.json({ sessionId: session.id })
 
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ethers } from 'ethers'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getContractService } from '@/lib/contract'
+
+/**
+ * Record a voucher redemption the buyer sent, once it's confirmed on-chain
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { txHash } = await request.json()
+
+    if (!txHash || !ethers.isHexString(txHash, 32)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      )
+    }
+
+    const { data: purchase, error: purchaseError } = await supabaseAdmin
+      .from('purchases')
+      .select(`
+        *,
+        artwork:artworks(chain_id)
+      `)
+      .eq('claim_token', params.token)
+      .maybeSingle()
+
+    if (purchaseError) {
+      throw new Error(`Error loading purchase: ${purchaseError.message}`)
+    }
+
+    if (!purchase || !purchase.artwork) {
+      return NextResponse.json(
+        { error: 'Invalid claim link' },
+        { status: 404 }
+      )
+    }
+
+    if (purchase.nft_minted) {
+      return NextResponse.json({ minted: true })
+    }
+
+    // Trust only the chain: the transaction must have redeemed this purchase's voucher
+    const redemption = await getContractService(purchase.artwork.chain_id)
+      .getVoucherRedemption(txHash, purchase.id)
+
+    if (!redemption) {
+      return NextResponse.json(
+        { error: 'Transaction did not redeem this purchase\'s voucher' },
+        { status: 400 }
+      )
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('purchases')
+      .update({
+        nft_minted: true,
+        nft_token_id: redemption.tokenId,
+        nft_tx_hash: txHash,
+        nft_mint_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', purchase.id)
+      .eq('nft_minted', false)
+
+    if (updateError) {
+      throw new Error(`Error recording redemption for purchase ${purchase.id}: ${updateError.message}`)
+    }
+
+    return NextResponse.json({ minted: true })
+
+  } catch (error) {
+    console.error('Redemption error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
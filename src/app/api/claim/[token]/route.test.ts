@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { fakeDb, filterValue } from '@/test/fake-supabase'
+import { verifySiweSignIn, AuthError } from '@/lib/auth'
+import { nftClaimStatement } from '@/lib/siwe'
+import { enqueueJob } from '@/lib/jobs'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase', () => import('@/test/fake-supabase'))
+vi.mock('@/lib/auth', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/auth')>(),
+  verifySiweSignIn: vi.fn()
+}))
+vi.mock('@/lib/jobs', () => ({ enqueueJob: vi.fn() }))
+
+const WALLET = '0x52908400098527886E0F7030069857D2E4169EE7'
+
+type TestPurchase = {
+  id: number
+  payment_status: string
+  nft_minted: boolean
+  buyer_wallet_address: string | null
+}
+
+let purchase: TestPurchase | null
+let claimWins: boolean
+
+async function claim(body: Record<string, unknown> = { message: 'siwe message', signature: '0xsig' }) {
+  const response = await POST(
+    new NextRequest('http://localhost/api/claim/claim-token', { method: 'POST', body: JSON.stringify(body) }),
+    { params: { token: 'claim-token' } }
+  )
+  return { status: response.status, body: await response.json() }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  fakeDb.reset()
+  purchase = { id: 7, payment_status: 'completed', nft_minted: false, buyer_wallet_address: null }
+  claimWins = true
+  vi.mocked(verifySiweSignIn).mockResolvedValue(WALLET)
+
+  fakeDb.respond = query => {
+    if (query.table !== 'purchases') {
+      return undefined
+    }
+    if (query.action === 'update') {
+      return { data: claimWins ? { id: 7 } : null }
+    }
+    return { data: purchase }
+  }
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+it('attaches the signing wallet and queues the mint', async () => {
+  expect(await claim()).toEqual({ status: 200, body: { address: WALLET.toLowerCase() } })
+
+  expect(filterValue(fakeDb.find('purchases', 'select')[0], 'eq', 'claim_token')).toBe('claim-token')
+  expect(verifySiweSignIn).toHaveBeenCalledWith('siwe message', '0xsig', 'localhost', nftClaimStatement(7))
+
+  const [update] = fakeDb.find('purchases', 'update')
+  expect(update.values.buyer_wallet_address).toBe(WALLET.toLowerCase())
+  expect(filterValue(update, 'eq', 'payment_status')).toBe('completed')
+  expect(filterValue(update, 'eq', 'nft_minted')).toBe(false)
+  expect(filterValue(update, 'is', 'buyer_wallet_address')).toBeNull()
+  expect(enqueueJob).toHaveBeenCalledWith('mint_nft', { purchaseId: 7 })
+})
+
+it('leaves minting to the buyer in voucher mode', async () => {
+  vi.stubEnv('NFT_MINT_MODE', 'voucher')
+
+  expect((await claim()).status).toBe(200)
+  expect(fakeDb.find('purchases', 'update')).toHaveLength(1)
+  expect(enqueueJob).not.toHaveBeenCalled()
+})
+
+it('requires a message and signature', async () => {
+  expect((await claim({ message: 'siwe message' })).status).toBe(400)
+  expect(fakeDb.queries).toEqual([])
+})
+
+describe('refuses without using up the sign-in nonce', () => {
+  it('for an unknown link', async () => {
+    purchase = null
+
+    expect((await claim()).status).toBe(404)
+    expect(verifySiweSignIn).not.toHaveBeenCalled()
+  })
+
+  it.each(['refunded', 'disputed', 'pending'])('for a %s purchase', async status => {
+    purchase!.payment_status = status
+
+    expect((await claim()).status).toBe(410)
+    expect(verifySiweSignIn).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['a wallet attached', { buyer_wallet_address: '0xabc' }],
+    ['the NFT minted', { nft_minted: true }]
+  ])('for a purchase with %s', async (_, changes) => {
+    Object.assign(purchase!, changes)
+
+    expect(await claim()).toEqual({ status: 409, body: { error: 'NFT already claimed' } })
+    expect(verifySiweSignIn).not.toHaveBeenCalled()
+  })
+})
+
+it('lets only the first of two concurrent claims through', async () => {
+  claimWins = false
+
+  expect(await claim()).toEqual({ status: 409, body: { error: 'NFT already claimed' } })
+  expect(enqueueJob).not.toHaveBeenCalled()
+})
+
+it('rejects a signature that does not verify', async () => {
+  vi.mocked(verifySiweSignIn).mockRejectedValue(new AuthError('Invalid signature'))
+
+  expect(await claim()).toEqual({ status: 401, body: { error: 'Invalid signature' } })
+  expect(fakeDb.find('purchases', 'update')).toEqual([])
+  expect(enqueueJob).not.toHaveBeenCalled()
+})
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { verifySiweSignIn, AuthError } from '@/lib/auth'
+import { nftClaimStatement } from '@/lib/siwe'
+import { enqueueJob } from '@/lib/jobs'
+import { isVoucherMintMode } from '@/lib/vouchers'
+
+/**
+ * Attach the signing wallet to a purchase made without one and queue its mint.
+ * In voucher mode the buyer mints it themselves, via the voucher route.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { message, signature } = await request.json()
+
+    if (!message || !signature) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const { data: purchase, error: purchaseError } = await supabaseAdmin
+      .from('purchases')
+      .select('id, payment_status, nft_minted, buyer_wallet_address')
+      .eq('claim_token', params.token)
+      .maybeSingle()
+
+    if (purchaseError) {
+      throw new Error(`Error loading purchase: ${purchaseError.message}`)
+    }
+
+    if (!purchase) {
+      return NextResponse.json(
+        { error: 'Invalid claim link' },
+        { status: 404 }
+      )
+    }
+
+    if (purchase.payment_status !== 'completed') {
+      return NextResponse.json(
+        { error: 'This purchase can no longer be claimed' },
+        { status: 410 }
+      )
+    }
+
+    if (purchase.nft_minted || purchase.buyer_wallet_address) {
+      return NextResponse.json(
+        { error: 'NFT already claimed' },
+        { status: 409 }
+      )
+    }
+
+    // The signature proves the buyer controls the wallet and binds it to this order
+    const address = await verifySiweSignIn(
+      message,
+      signature,
+      request.nextUrl.host,
+      nftClaimStatement(purchase.id)
+    )
+
+    // Only the first claim wins; a minted or already claimed purchase matches nothing
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('purchases')
+      .update({
+        buyer_wallet_address: address.toLowerCase(),
+        nft_claimed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', purchase.id)
+      .eq('payment_status', 'completed')
+      .eq('nft_minted', false)
+      .is('buyer_wallet_address', null)
+      .select('id')
+      .maybeSingle()
+
+    if (claimError) {
+      throw new Error(`Error claiming purchase ${purchase.id}: ${claimError.message}`)
+    }
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: 'NFT already claimed' },
+        { status: 409 }
+      )
+    }
+
+    if (!isVoucherMintMode()) {
+      await enqueueJob('mint_nft', { purchaseId: purchase.id })
+    }
+
+    return NextResponse.json({ address: address.toLowerCase() })
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      )
+    }
+
+    console.error('Claim error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getContractService } from '@/lib/contract'
+import { enqueueJob } from '@/lib/jobs'
+import { isVoucherMintMode } from '@/lib/vouchers'
+
+const VOUCHER_TTL_SECONDS = 60 * 60 // Re-signed on request, so keep it short
+
+/**
+ * Sign a mint voucher for a claimed purchase so the buyer can redeem it from their wallet
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    if (!isVoucherMintMode()) {
+      return NextResponse.json(
+        { error: 'Voucher minting is not enabled' },
+        { status: 404 }
+      )
+    }
+
+    const { data: purchase, error: purchaseError } = await supabaseAdmin
+      .from('purchases')
+      .select(`
+        *,
+        artwork:artworks(chain_id, token_id)
+      `)
+      .eq('claim_token', params.token)
+      .maybeSingle()
+
+    if (purchaseError) {
+      throw new Error(`Error loading purchase: ${purchaseError.message}`)
+    }
+
+    if (!purchase || !purchase.artwork) {
+      return NextResponse.json(
+        { error: 'Invalid claim link' },
+        { status: 404 }
+      )
+    }
+
+    if (purchase.payment_status !== 'completed') {
+      return NextResponse.json(
+        { error: 'This purchase can no longer be claimed' },
+        { status: 410 }
+      )
+    }
+
+    if (purchase.nft_minted) {
+      return NextResponse.json(
+        { error: 'NFT already minted' },
+        { status: 409 }
+      )
+    }
+
+    if (!purchase.buyer_wallet_address) {
+      return NextResponse.json(
+        { error: 'Claim the NFT with a wallet first' },
+        { status: 409 }
+      )
+    }
+
+    // Vouchers can only name a token that exists on-chain
+    if (!purchase.artwork.token_id) {
+      await enqueueJob('create_token', { artworkId: purchase.artwork_id })
+      return NextResponse.json(
+        { error: 'This NFT is not ready to mint yet. Please try again in a few minutes.' },
+        { status: 409 }
+      )
+    }
+
+    const signed = await getContractService(purchase.artwork.chain_id).signMintVoucher(
+      {
+        tokenId: purchase.artwork.token_id,
+        buyerAddress: purchase.buyer_wallet_address,
+        amount: 1,
+        nonce: purchase.id
+      },
+      VOUCHER_TTL_SECONDS
+    )
+
+    return NextResponse.json(signed)
+
+  } catch (error) {
+    console.error('Voucher error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
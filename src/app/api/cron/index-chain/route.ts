@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/auth'
+import { indexChain } from '@/lib/indexer'
+
+// Leave headroom under the function timeout for reconciliation
+const TIME_BUDGET_MS = 40 * 1000
+
+// Reads new contract events into chain_events and reconciles artworks and purchases
+// with the chain. Invoked by the scheduler in vercel.json with CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const summary = await indexChain(TIME_BUDGET_MS)
+
+    const events = summary.networks.reduce((total, network) => total + network.events, 0)
+    if (events > 0 || summary.drift.length > 0) {
+      console.log('Indexer run:', {
+        networks: summary.networks,
+        drift: summary.drift.length
+      })
+    }
+
+    return NextResponse.json(summary)
+
+  } catch (error) {
+    console.error('Indexer error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
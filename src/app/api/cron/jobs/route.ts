@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/auth'
+import { runJobs } from '@/lib/jobs'
+
+// Leave headroom under the function timeout for the job in flight
+const TIME_BUDGET_MS = 45 * 1000
+
+// Runs queued jobs (minting, token creation, emails) until the queue is drained.
+// Invoked by the scheduler in vercel.json with CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const summary = await runJobs(TIME_BUDGET_MS)
+
+    if (summary.completed + summary.retried + summary.dead > 0) {
+      console.log('Job run:', summary)
+    }
+
+    return NextResponse.json(summary)
+
+  } catch (error) {
+    console.error('Job worker error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
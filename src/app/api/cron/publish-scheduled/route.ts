@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { isCronRequest } from '@/lib/auth'
+
+// Publishes scheduled artworks whose publish_at has passed.
+// Invoked by the scheduler in vercel.json with CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { data: published, error } = await supabaseAdmin.rpc('publish_due_artworks')
+
+    if (error) {
+      console.error('Publish scheduled artworks error:', error)
+      return NextResponse.json(
+        { error: 'Failed to publish scheduled artworks' },
+        { status: 500 }
+      )
+    }
+
+    if (published > 0) {
+      console.log(`Published ${published} scheduled artwork(s)`)
+    }
+
+    return NextResponse.json({ published })
+
+  } catch (error) {
+    console.error('Publish scheduled artworks error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -1,5 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import {
+  fetchOriginal,
+  zipStoredFiles,
+  attachmentDisposition,
+  extensionForContentType,
+  safeFileName
+} from '@/lib/originals'
+import {
+  recordDownload,
+  trackBytesServed,
+  createResumeKey,
+  resumeEtag,
+  parseResumeKey,
+  isPartialRange
+} from '@/lib/downloads'
+import type { WallpaperVariant } from '@/lib/wallpapers'
 
 export async function GET(
   request: NextRequest,
@@ -28,6 +44,14 @@ export async function GET(
       )
     }
 
+    // Refunded and disputed purchases lose download access
+    if (downloadToken.revoked_at) {
+      return NextResponse.json(
+        { error: 'Download token has been revoked' },
+        { status: 410 }
+      )
+    }
+
     // Check if token has expired
     if (new Date(downloadToken.expires_at) < new Date()) {
       return NextResponse.json(
@@ -36,32 +60,139 @@ export async function GET(
       )
     }
 
-    // Check download limits
-    if (downloadToken.download_count >= downloadToken.max_downloads) {
-      return NextResponse.json(
-        { error: 'Maximum download limit reached' },
-        { status: 429 }
-      )
+    const artwork = downloadToken.purchase.artwork
+    const variantKey = request.nextUrl.searchParams.get('variant') || 'original'
+    const wallpapers: WallpaperVariant[] = artwork.wallpaper_variants || []
+
+    // Any one file, or the zip of all of them, counts as a single download
+    let files: { name: string; path: string }[] | null = null
+    let wallpaper: WallpaperVariant | undefined
+
+    if (variantKey === 'all') {
+      if (!artwork.original_path) {
+        return NextResponse.json(
+          { error: 'This artwork has no wallpaper sizes' },
+          { status: 404 }
+        )
+      }
+
+      const name = safeFileName(artwork.title)
+      files = [
+        {
+          name: `${name}.${extensionForContentType(artwork.original_content_type)}`,
+          path: artwork.original_path
+        },
+        ...wallpapers.map(variant => ({
+          name: `${name}-${variant.width}x${variant.height}.jpg`,
+          path: variant.path
+        }))
+      ]
+    } else if (variantKey !== 'original') {
+      wallpaper = wallpapers.find(variant => variant.key === variantKey)
+      if (!wallpaper) {
+        return NextResponse.json(
+          { error: 'Wallpaper size not available' },
+          { status: 404 }
+        )
+      }
     }
 
-    // Update download count
-    await supabaseAdmin
-      .from('download_tokens')
-      .update({ 
-        download_count: downloadToken.download_count + 1,
-        used_at: downloadToken.used_at || new Date().toISOString()
+    // A partial range is free only as the continuation of a counted download of this
+    // file: the client must send back, in If-Range, the ETag that download was served with
+    const requestedRange = files ? null : request.headers.get('range')
+    const resumeKey = parseResumeKey(request.headers.get('if-range'))
+    const isResume = isPartialRange(requestedRange) && !!resumeKey
+
+    // If-Range that isn't a live resume key means the client's copy is stale: send the whole file
+    const range = request.headers.has('if-range') && !isResume ? null : requestedRange
+
+    const limitReached = () => NextResponse.json(
+      { error: 'Maximum download limit reached' },
+      { status: 429 }
+    )
+
+    // Check download limits; record_download re-checks atomically before anything is served
+    if (!isResume && downloadToken.download_count >= downloadToken.max_downloads) {
+      return limitReached()
+    }
+
+    const download = {
+      tokenId: downloadToken.id,
+      variant: variantKey,
+      counted: !isResume,
+      resumeKey: (isResume && resumeKey) || createResumeKey(),
+      range
+    }
+
+    if (files) {
+      const eventId = await recordDownload(request, download)
+      if (!eventId) {
+        return limitReached()
+      }
+
+      return new NextResponse(trackBytesServed(eventId, zipStoredFiles(files)), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': attachmentDisposition(artwork.title, 'zip'),
+          'Cache-Control': 'private, no-store'
+        }
       })
-      .eq('id', downloadToken.id)
+    }
 
-    // In a real implementation, you would:
-    // 1. Fetch the actual high-res image from IPFS/storage
-    // 2. Stream it to the user
-    // For now, we'll redirect to the image URL
-    
-    const artwork = downloadToken.purchase.artwork
-    
-    // Create a response that triggers download
-    return NextResponse.redirect(artwork.image_url)
+    // Artworks uploaded before private originals only have the public image
+    const upstream = wallpaper
+      ? await fetchOriginal(wallpaper.path, range)
+      : artwork.original_path
+        ? await fetchOriginal(artwork.original_path, range)
+        : await fetch(artwork.image_url, { headers: range ? { Range: range } : undefined, cache: 'no-store' })
+
+    if (upstream.status === 416) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': upstream.headers.get('content-range') || '' }
+      })
+    }
+
+    if (!upstream.ok || !upstream.body) {
+      throw new Error(`Error fetching artwork ${artwork.id} file: ${upstream.status}`)
+    }
+
+    const eventId = await recordDownload(request, download)
+    if (!eventId) {
+      await upstream.body.cancel()
+      return isResume
+        ? NextResponse.json(
+            { error: 'This download can no longer be resumed. Start it again from the beginning.' },
+            { status: 412 }
+          )
+        : limitReached()
+    }
+
+    const contentType = wallpaper
+      ? 'image/jpeg'
+      : artwork.original_content_type || upstream.headers.get('content-type') || 'application/octet-stream'
+
+    const headers = new Headers({
+      'Content-Type': contentType,
+      'Content-Disposition': wallpaper
+        ? attachmentDisposition(`${artwork.title}-${wallpaper.width}x${wallpaper.height}`, 'jpg')
+        : attachmentDisposition(artwork.title, extensionForContentType(contentType)),
+      'Accept-Ranges': 'bytes',
+      'ETag': resumeEtag(download.resumeKey),
+      'Cache-Control': 'private, no-store'
+    })
+
+    const contentLength = upstream.headers.get('content-length')
+    if (contentLength) {
+      headers.set('Content-Length', contentLength)
+    }
+
+    const contentRange = upstream.headers.get('content-range')
+    if (upstream.status === 206 && contentRange) {
+      headers.set('Content-Range', contentRange)
+    }
+
+    return new NextResponse(trackBytesServed(eventId, upstream.body), { status: upstream.status, headers })
 
   } catch (error) {
     console.error('Download error:', error)
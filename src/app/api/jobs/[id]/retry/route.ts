@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/auth'
+import { retryDeadJob } from '@/lib/jobs'
+
+// Requeues a dead job after the cause has been fixed. Operator-only: CRON_SECRET bearer token.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const jobId = parseInt(params.id)
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'Invalid job id' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const retried = await retryDeadJob(jobId)
+
+    if (!retried) {
+      return NextResponse.json(
+        { error: 'Dead job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ retried: true })
+
+  } catch (error) {
+    console.error('Job retry error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
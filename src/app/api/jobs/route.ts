@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+
+const STATUSES = ['pending', 'running', 'completed', 'dead']
+
+// Lists jobs for operators, dead-lettered ones by default. CRON_SECRET bearer token.
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const status = searchParams.get('status') || 'dead'
+  const purchaseId = searchParams.get('purchase')
+
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: 'Invalid status' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    let query = supabaseAdmin
+      .from('jobs')
+      .select('*')
+      .eq('status', status)
+      .order('updated_at', { ascending: false })
+      .limit(100)
+
+    if (purchaseId) {
+      query = query.eq('purchase_id', purchaseId)
+    }
+
+    const { data: jobs, error } = await query
+
+    if (error) {
+      console.error('Error fetching jobs:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch jobs' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ jobs })
+
+  } catch (error) {
+    console.error('Job list error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { fakeDb, filterValue } from '@/test/fake-supabase'
+import { MAX_REISSUES_PER_EMAIL_PER_DAY, MAX_REISSUES_PER_PURCHASE_PER_DAY } from '@/lib/orders'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase', () => import('@/test/fake-supabase'))
+
+type TestPurchase = {
+  id: number
+  buyer_email: string
+  payment_status: string
+}
+
+let lookup: { buyer_email: string; expires_at: string } | null
+let purchase: TestPurchase | null
+
+async function reissue(body: Record<string, unknown> = { purchaseId: 7 }) {
+  const response = await POST(
+    new NextRequest('http://localhost/api/orders/lookup-token/reissue', { method: 'POST', body: JSON.stringify(body) }),
+    { params: { token: 'lookup-token' } }
+  )
+  return { status: response.status, body: await response.json() }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  fakeDb.reset()
+  lookup = { buyer_email: 'buyer@example.com', expires_at: new Date(Date.now() + 60_000).toISOString() }
+  purchase = { id: 7, buyer_email: 'Buyer@Example.com', payment_status: 'completed' }
+  fakeDb.rpc.mockResolvedValue({ data: true, error: null })
+
+  fakeDb.respond = query => {
+    if (query.table === 'order_lookups') {
+      return { data: lookup }
+    }
+    if (query.table === 'purchases') {
+      return { data: purchase }
+    }
+    return undefined
+  }
+})
+
+it('issues a new download link for a purchase the lookup link covers', async () => {
+  const { status, body } = await reissue()
+
+  expect(status).toBe(200)
+  expect(filterValue(fakeDb.find('order_lookups')[0], 'eq', 'token')).toBe('lookup-token')
+  expect(filterValue(fakeDb.find('purchases')[0], 'eq', 'id')).toBe(7)
+
+  const [, args] = fakeDb.rpc.mock.calls[0]
+  expect(fakeDb.rpc).toHaveBeenCalledWith('reissue_download_token', expect.objectContaining({
+    p_purchase_id: 7,
+    p_max_per_purchase: MAX_REISSUES_PER_PURCHASE_PER_DAY,
+    p_max_per_email: MAX_REISSUES_PER_EMAIL_PER_DAY
+  }))
+  expect(body).toEqual({ downloadUrl: `/download/${args!.p_token}` })
+})
+
+it('refuses once the daily limits are reached', async () => {
+  fakeDb.rpc.mockResolvedValue({ data: false, error: null })
+
+  const { status, body } = await reissue()
+
+  expect(status).toBe(429)
+  expect(body.error).toMatch(/limited/)
+})
+
+describe('issues nothing', () => {
+  it.each([
+    ['an unknown link', () => { lookup = null }],
+    ['an expired link', () => { lookup!.expires_at = new Date(Date.now() - 1000).toISOString() }]
+  ])('for %s', async (_, setUp) => {
+    setUp()
+
+    expect((await reissue()).status).toBe(410)
+    expect(fakeDb.find('purchases')).toEqual([])
+  })
+
+  it.each([{}, { purchaseId: '7' }, { purchaseId: 0 }, { purchaseId: 1.5 }])('for purchase %j', async body => {
+    expect((await reissue(body)).status).toBe(400)
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['a purchase that doesn\'t exist', () => { purchase = null }],
+    ['another buyer\'s purchase', () => { purchase!.buyer_email = 'someone@example.com' }]
+  ])('for %s', async (_, setUp) => {
+    setUp()
+
+    expect(await reissue()).toEqual({ status: 404, body: { error: 'Purchase not found' } })
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+  })
+
+  it.each(['refunded', 'disputed', 'pending'])('for a %s purchase', async status => {
+    purchase!.payment_status = status
+
+    expect((await reissue()).status).toBe(409)
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import {
+  getOrderLookupEmail,
+  reissueDownloadToken,
+  normalizeEmail,
+  MAX_REISSUES_PER_PURCHASE_PER_DAY,
+  MAX_REISSUES_PER_EMAIL_PER_DAY
+} from '@/lib/orders'
+
+/**
+ * Issue a fresh download link for one of the purchases an order lookup link covers
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const buyerEmail = await getOrderLookupEmail(params.token)
+    if (!buyerEmail) {
+      return NextResponse.json(
+        { error: 'This link has expired. Look up your orders again to get a new one.' },
+        { status: 410 }
+      )
+    }
+
+    const { purchaseId } = await request.json()
+
+    if (!Number.isInteger(purchaseId) || purchaseId < 1) {
+      return NextResponse.json(
+        { error: 'Missing or invalid purchase' },
+        { status: 400 }
+      )
+    }
+
+    const { data: purchase, error: purchaseError } = await supabaseAdmin
+      .from('purchases')
+      .select('id, buyer_email, payment_status')
+      .eq('id', purchaseId)
+      .maybeSingle()
+
+    if (purchaseError) {
+      throw new Error(`Error loading purchase ${purchaseId}: ${purchaseError.message}`)
+    }
+
+    if (!purchase || normalizeEmail(purchase.buyer_email) !== buyerEmail) {
+      return NextResponse.json(
+        { error: 'Purchase not found' },
+        { status: 404 }
+      )
+    }
+
+    if (purchase.payment_status !== 'completed') {
+      return NextResponse.json(
+        { error: 'This purchase was refunded or is under dispute, so it has no downloads' },
+        { status: 409 }
+      )
+    }
+
+    const downloadToken = await reissueDownloadToken(purchase.id)
+    if (!downloadToken) {
+      return NextResponse.json(
+        {
+          error: `New links are limited to ${MAX_REISSUES_PER_PURCHASE_PER_DAY} per order and ${MAX_REISSUES_PER_EMAIL_PER_DAY} per email each day. Please try again tomorrow.`
+        },
+        { status: 429 }
+      )
+    }
+
+    return NextResponse.json({ downloadUrl: `/download/${downloadToken}` })
+
+  } catch (error) {
+    console.error('Download reissue error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
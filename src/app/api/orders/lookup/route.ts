@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { sendOrderLookupEmail } from '@/lib/email'
+import { createOrderLookup, emailPattern, isValidEmail, normalizeEmail } from '@/lib/orders'
+
+/**
+ * Email a link to the orders placed with an email address. The response is the same
+ * whether or not there are any, so the form can't be used to find out who bought what.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json()
+
+    const buyerEmail = typeof email === 'string' ? normalizeEmail(email) : ''
+    if (!isValidEmail(buyerEmail)) {
+      return NextResponse.json(
+        { error: 'Enter a valid email address' },
+        { status: 400 }
+      )
+    }
+
+    const lookupToken = await createOrderLookup(buyerEmail)
+    if (!lookupToken) {
+      return NextResponse.json(
+        { error: 'Too many requests for this email. Please try again in an hour.' },
+        { status: 429 }
+      )
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('purchases')
+      .select('id', { count: 'exact', head: true })
+      .ilike('buyer_email', emailPattern(buyerEmail))
+
+    if (countError) {
+      throw new Error(`Error counting purchases: ${countError.message}`)
+    }
+
+    if (count) {
+      await sendOrderLookupEmail({ buyerEmail, lookupToken })
+    }
+
+    return NextResponse.json({
+      message: 'If there are orders for this email, we\'ve sent a link to view them.'
+    })
+
+  } catch (error) {
+    console.error('Order lookup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
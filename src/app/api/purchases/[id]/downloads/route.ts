@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getWalletSession, isCronRequest } from '@/lib/auth'
+import { ARTIST_DOWNLOAD_EVENT_COLUMNS } from '@/lib/downloads'
+
+/**
+ * Download history for a purchase: support (CRON_SECRET bearer token) sees every field,
+ * the artwork's artist sees when and what was downloaded
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const isSupport = isCronRequest(request)
+  const session = isSupport ? null : getWalletSession(request)
+
+  if (!isSupport && !session) {
+    return NextResponse.json(
+      { error: 'Sign in with your wallet to view downloads' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    // Read server-side: purchases are service-only under RLS, so ownership is checked here
+    const { data: purchase, error: purchaseError } = await supabaseAdmin
+      .from('purchases')
+      .select(`
+        *,
+        artwork:artworks(
+          *,
+          artist:artists(wallet_address)
+        )
+      `)
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (purchaseError) {
+      throw new Error(`Error loading purchase ${params.id}: ${purchaseError.message}`)
+    }
+
+    if (!purchase || (!isSupport && purchase.artwork?.artist?.wallet_address !== session!.address)) {
+      return NextResponse.json(
+        { error: 'Purchase not found' },
+        { status: 404 }
+      )
+    }
+
+    const [{ data: tokens, error: tokensError }, { data: events, error: eventsError }] = await Promise.all([
+      supabaseAdmin
+        .from('download_tokens')
+        .select('id, download_count, max_downloads, expires_at, used_at, revoked_at, created_at')
+        .eq('purchase_id', purchase.id)
+        .order('created_at', { ascending: true }),
+      supabaseAdmin
+        .from('download_events')
+        .select(isSupport ? '*' : ARTIST_DOWNLOAD_EVENT_COLUMNS)
+        .eq('purchase_id', purchase.id)
+        .order('created_at', { ascending: false })
+        .limit(500)
+    ])
+
+    if (tokensError || eventsError) {
+      throw new Error(`Error loading downloads for purchase ${purchase.id}: ${(tokensError || eventsError)!.message}`)
+    }
+
+    return NextResponse.json({
+      purchase: {
+        id: purchase.id,
+        artwork_id: purchase.artwork_id,
+        payment_status: purchase.payment_status,
+        created_at: purchase.created_at,
+        ...(isSupport ? { buyer_email: purchase.buyer_email } : {})
+      },
+      tokens,
+      events
+    })
+
+  } catch (error) {
+    console.error('Download history error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, PUBLIC_ARTIST_COLUMNS, PUBLIC_ARTWORK_COLUMNS } from '@/lib/supabase'
+import { parseSearchParams, SORT_COLUMNS } from '@/lib/search'
+import { applyKeyset, decodeCursor, parsePageLimit, toPage } from '@/lib/pagination'
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const search = parseSearchParams(url.searchParams)
+    const limit = parsePageLimit(url.searchParams.get('limit'), 24)
+    const cursor = decodeCursor(url.searchParams.get('cursor'))
+
+    let query = supabaseAdmin
+      .from('artworks')
+      .select(`
+        ${PUBLIC_ARTWORK_COLUMNS},
+        artist:artists!inner(${PUBLIC_ARTIST_COLUMNS})
+      `, { count: cursor ? undefined : 'exact' }) // Total is only counted for the first page
+      .eq('status', 'published')
+
+    if (search.q) {
+      query = query.textSearch('search_vector', search.q, {
+        type: 'websearch',
+        config: 'english'
+      })
+    }
+
+    if (search.category) {
+      query = query.eq('category', search.category)
+    }
+
+    if (search.tag) {
+      query = query.contains('tags', [search.tag])
+    }
+
+    if (search.artist) {
+      query = query.eq('artist.wallet_address', search.artist)
+    }
+
+    if (search.minPrice !== undefined) {
+      query = query.gte('price_usd', search.minPrice)
+    }
+
+    if (search.maxPrice !== undefined) {
+      query = query.lte('price_usd', search.maxPrice)
+    }
+
+    if (search.available) {
+      query = query.eq('is_available', true)
+    }
+
+    const { column, ascending } = SORT_COLUMNS[search.sort]
+
+    const { data: rows, count, error } = await applyKeyset(query, column, ascending, cursor, limit)
+
+    if (error) {
+      console.error('Search artworks error:', error)
+      return NextResponse.json(
+        { error: 'Failed to search artworks' },
+        { status: 500 }
+      )
+    }
+
+    const { items: artworks, nextCursor } = toPage(rows || [], column, limit)
+
+    return NextResponse.json({ artworks, nextCursor, total: cursor ? undefined : count || 0 })
+
+  } catch (error) {
+    console.error('Search error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { fakeDb, filterValue } from '@/test/fake-supabase'
+import { stripe } from '@/lib/stripe'
+import { enqueueJob, requeueJob } from '@/lib/jobs'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase', () => import('@/test/fake-supabase'))
+vi.mock('@/lib/stripe', () => ({
+  stripe: { webhooks: { constructEvent: vi.fn() }, refunds: { create: vi.fn() } }
+}))
+vi.mock('@/lib/jobs', () => ({ enqueueJob: vi.fn(), requeueJob: vi.fn() }))
+vi.mock('@/lib/reservations', () => ({ claimReservedEdition: vi.fn(), releaseReservation: vi.fn() }))
+
+type TestPurchase = {
+  id: number
+  artwork_id: number
+  payment_status: string
+  nft_minted: boolean
+  buyer_wallet_address: string | null
+  download_sent: boolean
+}
+
+let eventCount = 0
+let purchase: TestPurchase
+
+// Deliver a verified event; each gets a fresh id so the processed-event cache doesn't answer
+async function deliver(type: string, object: Record<string, unknown>) {
+  vi.mocked(stripe.webhooks.constructEvent).mockReturnValue({
+    id: `evt_${++eventCount}`,
+    type,
+    data: { object }
+  } as any)
+
+  const response = await POST(new NextRequest('http://localhost/api/webhook/stripe', {
+    method: 'POST',
+    body: '{}',
+    headers: { 'stripe-signature': 'sig' }
+  }))
+  return response.json()
+}
+
+function statusUpdates() {
+  return fakeDb.find('purchases', 'update').map(query => query.values.payment_status)
+}
+
+function tokenRevocations() {
+  return fakeDb.find('download_tokens', 'update').map(query => query.values.revoked_at)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  fakeDb.reset()
+  purchase = {
+    id: 7,
+    artwork_id: 3,
+    payment_status: 'completed',
+    nft_minted: false,
+    buyer_wallet_address: '0x52908400098527886e0f7030069857d2e4169ee7',
+    download_sent: true
+  }
+
+  // Status changes only match a purchase in one of the states they move from
+  fakeDb.respond = query => {
+    if (query.table !== 'purchases' || query.action !== 'update') {
+      return undefined
+    }
+    const from = filterValue(query, 'in', 'payment_status') as string[]
+    return from.includes(purchase.payment_status)
+      ? { data: { ...purchase, payment_status: query.values.payment_status } }
+      : { data: null }
+  }
+})
+
+describe('charge.refunded', () => {
+  it('returns the edition, revokes downloads and tells the buyer on a full refund', async () => {
+    expect(await deliver('charge.refunded', { id: 'ch_1', refunded: true, payment_intent: 'pi_1' }))
+      .toEqual({ received: true })
+
+    const [update] = fakeDb.find('purchases', 'update')
+    expect(filterValue(update, 'eq', 'stripe_payment_intent_id')).toBe('pi_1')
+    expect(filterValue(update, 'in', 'payment_status')).toEqual(['completed', 'disputed'])
+    expect(statusUpdates()).toEqual(['refunded'])
+    expect(fakeDb.rpc).toHaveBeenCalledWith('release_artwork_edition', { p_artwork_id: 3 })
+    expect(tokenRevocations()).toEqual([expect.any(String)])
+    expect(enqueueJob).toHaveBeenCalledWith('send_purchase_notice', { purchaseId: 7, notice: 'refunded' })
+  })
+
+  it('keeps the edition sold when the NFT was already minted', async () => {
+    purchase.nft_minted = true
+
+    await deliver('charge.refunded', { id: 'ch_1', refunded: true, payment_intent: 'pi_1' })
+
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+    expect(tokenRevocations()).toEqual([expect.any(String)])
+  })
+
+  it('leaves the sale standing on a partial refund', async () => {
+    await deliver('charge.refunded', { id: 'ch_1', refunded: false, payment_intent: 'pi_1' })
+
+    expect(statusUpdates()).toEqual([])
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+  })
+
+  it('acts once when the refund was already handled', async () => {
+    purchase.payment_status = 'refunded'
+
+    expect(await deliver('charge.refunded', { id: 'ch_1', refunded: true, payment_intent: 'pi_1' }))
+      .toEqual({ received: true })
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+    expect(tokenRevocations()).toEqual([])
+    expect(enqueueJob).not.toHaveBeenCalled()
+  })
+})
+
+describe('charge.dispute.created', () => {
+  it('pauses downloads and tells the buyer', async () => {
+    await deliver('charge.dispute.created', { id: 'dp_1', payment_intent: 'pi_1' })
+
+    expect(filterValue(fakeDb.find('purchases', 'update')[0], 'in', 'payment_status')).toEqual(['completed'])
+    expect(statusUpdates()).toEqual(['disputed'])
+    expect(tokenRevocations()).toEqual([expect.any(String)])
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+    expect(enqueueJob).toHaveBeenCalledWith('send_purchase_notice', { purchaseId: 7, notice: 'dispute_opened' })
+  })
+})
+
+describe('charge.dispute.closed', () => {
+  beforeEach(() => {
+    purchase.payment_status = 'disputed'
+  })
+
+  it('reverses the sale when the dispute is lost', async () => {
+    await deliver('charge.dispute.closed', { id: 'dp_1', status: 'lost', payment_intent: 'pi_1' })
+
+    expect(statusUpdates()).toEqual(['refunded'])
+    expect(fakeDb.rpc).toHaveBeenCalledWith('release_artwork_edition', { p_artwork_id: 3 })
+    expect(tokenRevocations()).toEqual([expect.any(String)])
+    expect(enqueueJob).toHaveBeenCalledWith('send_purchase_notice', { purchaseId: 7, notice: 'dispute_lost' })
+  })
+
+  it.each(['won', 'warning_closed'])('restores downloads when the dispute closes as %s', async status => {
+    await deliver('charge.dispute.closed', { id: 'dp_1', status, payment_intent: 'pi_1' })
+
+    expect(filterValue(fakeDb.find('purchases', 'update')[0], 'in', 'payment_status')).toEqual(['disputed'])
+    expect(statusUpdates()).toEqual(['completed'])
+    expect(tokenRevocations()).toEqual([null])
+    expect(fakeDb.rpc).not.toHaveBeenCalled()
+    expect(enqueueJob).toHaveBeenCalledWith('send_purchase_notice', { purchaseId: 7, notice: 'dispute_won' })
+  })
+
+  it('requeues a mint and download email skipped during the dispute', async () => {
+    purchase.download_sent = false
+
+    await deliver('charge.dispute.closed', { id: 'dp_1', status: 'won', payment_intent: 'pi_1' })
+
+    expect(requeueJob).toHaveBeenCalledWith('mint_nft', { purchaseId: 7 })
+    expect(requeueJob).toHaveBeenCalledWith('send_download_email', { purchaseId: 7 })
+  })
+
+  it('requeues nothing already delivered', async () => {
+    purchase.nft_minted = true
+
+    await deliver('charge.dispute.closed', { id: 'dp_1', status: 'won', payment_intent: 'pi_1' })
+
+    expect(requeueJob).not.toHaveBeenCalled()
+  })
+})
+
+it('rejects events whose signature does not verify', async () => {
+  vi.mocked(stripe.webhooks.constructEvent).mockImplementation(() => {
+    throw new Error('No signatures found')
+  })
+
+  const response = await POST(new NextRequest('http://localhost/api/webhook/stripe', {
+    method: 'POST',
+    body: '{}',
+    headers: { 'stripe-signature': 'bad' }
+  }))
+
+  expect(response.status).toBe(400)
+  expect(statusUpdates()).toEqual([])
+})
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { stripe } from '@/lib/stripe'
 import { supabaseAdmin } from '@/lib/supabase'
-import { sendDownloadEmail } from '@/lib/email'
+import { enqueueJob, requeueJob } from '@/lib/jobs'
+import { isVoucherMintMode } from '@/lib/vouchers'
+import type { PurchaseNotice } from '@/lib/email'
+import { claimReservedEdition, releaseReservation } from '@/lib/reservations'
 import Stripe from 'stripe'
 import crypto from 'crypto'
 
@@ -161,10 +164,14 @@ async function processEventWithTransaction(event: Stripe.Event): Promise<{ recei
               artwork_id: artworkId,
               buyer_email: buyerEmail,
               buyer_wallet_address: buyerWalletAddress || null,
+              // Buyers get a link to claim the NFT later if they gave no wallet, or to mint it
+              // themselves when vouchers are enabled
+              claim_token: buyerWalletAddress && !isVoucherMintMode() ? null : generateSecureToken('cl'),
               stripe_payment_intent_id: session.payment_intent as string,
               stripe_session_id: session.id,
               amount_paid_usd: (session.amount_total || 0) / 100,
-              payment_status: 'completed',
+              // Completed only once an edition is claimed, so refund events can't return one it never took
+              payment_status: 'pending',
               idempotency_key: generateIdempotencyKey(session.id)
             })
             .select()
@@ -177,18 +184,27 @@ async function processEventWithTransaction(event: Stripe.Event): Promise<{ recei
           purchase = newPurchase
           rollbackNeeded = true
 
-          // Update artwork edition count atomically
-          const { error: updateError } = await supabaseAdmin.rpc(
-            'increment_artwork_editions',
-            { artwork_id: artworkId }
-          )
+          // Turn the checkout's hold into a sold edition atomically
+          const editionClaimed = await claimReservedEdition(session.id, artworkId)
 
-          if (updateError) {
-            throw new Error(`Error updating artwork editions: ${updateError.message}`)
+          if (!editionClaimed) {
+            // Paid after the last edition went elsewhere: refund rather than deliver
+            await refundOversoldPurchase(purchase.id, session)
+            rollbackNeeded = false
+            return { received: true }
+          }
+
+          const { error: completeError } = await supabaseAdmin
+            .from('purchases')
+            .update({ payment_status: 'completed' })
+            .eq('id', purchase.id)
+
+          if (completeError) {
+            throw new Error(`Error completing purchase: ${completeError.message}`)
           }
 
           // Create download token with better entropy
-          const downloadToken = generateSecureToken()
+          const downloadToken = generateSecureToken('dl')
           const expiresAt = new Date()
           expiresAt.setDate(expiresAt.getDate() + 7) // 7 days to download
 
@@ -205,49 +221,11 @@ async function processEventWithTransaction(event: Stripe.Event): Promise<{ recei
             throw new Error(`Error creating download token: ${tokenError.message}`)
           }
 
-          // Send download email
-          const { data: artwork } = await supabaseAdmin
-            .from('artworks')
-            .select(`
-              *,
-              artists!inner(name, wallet_address)
-            `)
-            .eq('id', artworkId)
-            .single()
-
-          if (!artwork) {
-            throw new Error('Artwork not found')
-          }
-
-          const emailSent = await sendDownloadEmailWithRetry({
-            buyerEmail,
-            artworkTitle: artwork.title,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            artistName: (artwork.artists as any)?.name || 'Unknown Artist',
-            downloadToken,
-            purchaseAmount: (session.amount_total || 0) / 100
-          })
+          // Email delivery and minting run from the job queue so they survive restarts and retry
+          await enqueueJob('send_download_email', { purchaseId: purchase.id })
 
-          if (emailSent) {
-            await supabaseAdmin
-              .from('purchases')
-              .update({ download_sent: true })
-              .eq('id', purchase.id)
-          }
-
-          // Mint NFT if wallet address provided
-          if (buyerWalletAddress && artwork) {
-            // Queue NFT minting as a separate async job to avoid blocking
-            queueNFTMinting({
-              purchaseId: purchase.id,
-              artworkId,
-              artwork,
-              buyerWalletAddress,
-              sessionId: session.id
-            }).catch(error => {
-              console.error('Error queuing NFT minting:', error)
-              // Don't fail the webhook - NFT minting is optional
-            })
+          if (buyerWalletAddress && !isVoucherMintMode()) {
+            await enqueueJob('mint_nft', { purchaseId: purchase.id })
           }
           
           rollbackNeeded = false
@@ -270,6 +248,15 @@ async function processEventWithTransaction(event: Stripe.Event): Promise<{ recei
         break
       }
 
+      case 'checkout.session.expired': {
+        const session = event.data.object as Stripe.Checkout.Session
+
+        // Abandoned checkout: give its edition back
+        await releaseReservation({ stripeSessionId: session.id })
+
+        break
+      }
+
       case 'payment_intent.payment_failed': {
         const paymentIntent = event.data.object as Stripe.PaymentIntent
         
@@ -286,6 +273,43 @@ async function processEventWithTransaction(event: Stripe.Event): Promise<{ recei
         break
       }
 
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge
+
+        // Partial refunds leave the sale standing
+        if (!charge.refunded) {
+          console.log(`Partial refund on charge ${charge.id}, purchase unchanged`)
+          break
+        }
+
+        await reversePurchase(paymentIntentId(charge.payment_intent), 'refunded')
+
+        break
+      }
+
+      case 'charge.dispute.created': {
+        const dispute = event.data.object as Stripe.Dispute
+
+        await suspendDisputedPurchase(paymentIntentId(dispute.payment_intent))
+
+        break
+      }
+
+      case 'charge.dispute.closed': {
+        const dispute = event.data.object as Stripe.Dispute
+        const intentId = paymentIntentId(dispute.payment_intent)
+
+        // Only a lost dispute takes the money back; won, warning_closed and any other
+        // close leave the sale standing
+        if (dispute.status === 'lost') {
+          await reversePurchase(intentId, 'dispute_lost')
+        } else {
+          await restoreDisputedPurchase(intentId)
+        }
+
+        break
+      }
+
       default:
         console.log(`Unhandled event type: ${event.type}`)
     }
@@ -302,116 +326,171 @@ async function processEventWithTransaction(event: Stripe.Event): Promise<{ recei
 }
 
 /**
- * Generate secure download token
+ * Payment intent id from an expandable Stripe field
  */
-function generateSecureToken(): string {
-  return `dl_${crypto.randomBytes(32).toString('hex')}`
+function paymentIntentId(value: string | Stripe.PaymentIntent | null): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
 }
 
 /**
- * Generate idempotency key
+ * Move a purchase from one payment status to another. Returns the purchase only if
+ * this call made the change, so repeated or overlapping events act once.
  */
-function generateIdempotencyKey(seed: string): string {
-  return crypto.createHash('sha256').update(seed).digest('hex')
+async function transitionPurchase(
+  intentId: string | null,
+  from: string[],
+  to: string
+): Promise<any | null> {
+  if (!intentId) {
+    return null
+  }
+
+  const { data: purchase, error } = await supabaseAdmin
+    .from('purchases')
+    .update({ payment_status: to, updated_at: new Date().toISOString() })
+    .eq('stripe_payment_intent_id', intentId)
+    .in('payment_status', from)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Error updating purchase status: ${error.message}`)
+  }
+
+  if (!purchase) {
+    console.log(`No purchase in ${from.join('/')} state for payment intent ${intentId}`)
+  }
+
+  return purchase
 }
 
 /**
- * Send email with retry logic
+ * Revoke or restore every download token of a purchase
  */
-async function sendDownloadEmailWithRetry(
-  params: Parameters<typeof sendDownloadEmail>[0],
-  maxRetries = 3
-): Promise<boolean> {
-  let lastError: Error | null = null
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const result = await sendDownloadEmail(params)
-      if (result) return true
-    } catch (error: any) {
-      lastError = error
-      console.warn(`Email send attempt ${attempt} failed:`, error.message)
-      
-      if (attempt < maxRetries) {
-        // Exponential backoff
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000))
-      }
-    }
+async function setDownloadTokensRevoked(purchaseId: number, revoked: boolean): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('download_tokens')
+    .update({ revoked_at: revoked ? new Date().toISOString() : null })
+    .eq('purchase_id', purchaseId)
+
+  if (error) {
+    throw new Error(`Error updating download tokens: ${error.message}`)
   }
-  
-  console.error('All email send attempts failed:', lastError)
-  return false
 }
 
 /**
- * Queue NFT minting as an async job
+ * Queue an email telling the buyer what happened to their purchase
  */
-async function queueNFTMinting(params: {
-  purchaseId: number
-  artworkId: number
-  artwork: any
-  buyerWalletAddress: string
-  sessionId: string
-}): Promise<void> {
-  // In production, this would add to a job queue (e.g., Bull, BullMQ)
-  // For now, process inline but with error isolation
-  
-  setTimeout(async () => {
-    try {
-      const { getContractService } = await import('@/lib/contract')
-      const contractService = getContractService()
-      
-      // Check if this artwork already has a token ID
-      if (!params.artwork.token_id) {
-        // Create token on contract first
-        const tokenId = await contractService.createToken(
-          params.artwork.artists.wallet_address,
-          params.artwork.max_editions,
-          params.artwork.metadata_url
-        )
-        
-        // Update artwork with token ID
-        await supabaseAdmin
-          .from('artworks')
-          .update({ token_id: tokenId })
-          .eq('id', params.artworkId)
-          
-        params.artwork.token_id = tokenId
-      }
-      
-      // Mint the token to the buyer
-      const txHash = await contractService.mintToken(
-        params.artwork.token_id,
-        params.buyerWalletAddress,
-        1
-      )
-      
-      // Update purchase record with NFT info
-      await supabaseAdmin
-        .from('purchases')
-        .update({ 
-          nft_minted: true,
-          nft_token_id: params.artwork.token_id,
-          nft_tx_hash: txHash
-        })
-        .eq('id', params.purchaseId)
-        
-      console.log(`NFT minted successfully. Token ID: ${params.artwork.token_id}, TX: ${txHash}`)
-      
-    } catch (error) {
-      console.error('Error minting NFT:', error)
-      
-      // Store error for manual review
-      await supabaseAdmin
-        .from('nft_minting_errors')
-        .insert({
-          purchase_id: params.purchaseId,
-          error_message: error instanceof Error ? error.message : 'Unknown error',
-          error_details: error,
-          session_id: params.sessionId
-        })
+async function notifyBuyer(purchase: any, notice: PurchaseNotice): Promise<void> {
+  await enqueueJob('send_purchase_notice', { purchaseId: purchase.id, notice })
+}
+
+/**
+ * Undo a sale after a refund or lost dispute: return the edition and revoke downloads
+ */
+async function reversePurchase(intentId: string | null, notice: 'refunded' | 'dispute_lost'): Promise<void> {
+  const purchase = await transitionPurchase(intentId, ['completed', 'disputed'], 'refunded')
+  if (!purchase) {
+    return
+  }
+
+  // A minted token still counts against the on-chain max supply, so its edition can't be resold
+  if (purchase.nft_minted) {
+    console.warn(`Purchase ${purchase.id} reversed after its NFT was minted; edition not returned`)
+  } else {
+    const { error } = await supabaseAdmin.rpc('release_artwork_edition', {
+      p_artwork_id: purchase.artwork_id
+    })
+
+    if (error) {
+      throw new Error(`Error returning edition: ${error.message}`)
     }
-  }, 1000) // Process after 1 second to avoid blocking webhook response
+  }
+
+  await setDownloadTokensRevoked(purchase.id, true)
+  await notifyBuyer(purchase, notice)
+}
+
+/**
+ * Pause downloads while a dispute is open
+ */
+async function suspendDisputedPurchase(intentId: string | null): Promise<void> {
+  const purchase = await transitionPurchase(intentId, ['completed'], 'disputed')
+  if (!purchase) {
+    return
+  }
+
+  await setDownloadTokensRevoked(purchase.id, true)
+  await notifyBuyer(purchase, 'dispute_opened')
+}
+
+/**
+ * Reinstate a purchase whose dispute was decided for the sale
+ */
+async function restoreDisputedPurchase(intentId: string | null): Promise<void> {
+  const purchase = await transitionPurchase(intentId, ['disputed'], 'completed')
+  if (!purchase) {
+    return
+  }
+
+  await setDownloadTokensRevoked(purchase.id, false)
+
+  // Jobs that ran while the dispute was open skipped the purchase
+  if (purchase.buyer_wallet_address && !purchase.nft_minted && !isVoucherMintMode()) {
+    await requeueJob('mint_nft', { purchaseId: purchase.id })
+  }
+  if (!purchase.download_sent) {
+    await requeueJob('send_download_email', { purchaseId: purchase.id })
+  }
+
+  await notifyBuyer(purchase, 'dispute_won')
+}
+
+/**
+ * Generate secure download or claim token
+ */
+function generateSecureToken(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Generate idempotency key
+ */
+function generateIdempotencyKey(seed: string): string {
+  return crypto.createHash('sha256').update(seed).digest('hex')
+}
+
+/**
+ * Refund a purchase that could not get an edition, flagging it for review if the refund fails
+ */
+async function refundOversoldPurchase(purchaseId: number, session: Stripe.Checkout.Session): Promise<void> {
+  console.warn(`No edition left for session ${session.id}, refunding purchase ${purchaseId}`)
+
+  let paymentStatus = 'refunded'
+
+  try {
+    await stripe.refunds.create(
+      {
+        payment_intent: session.payment_intent as string,
+        reason: 'requested_by_customer',
+        metadata: { reason: 'sold_out', purchaseId: purchaseId.toString() }
+      },
+      { idempotencyKey: generateIdempotencyKey(`${session.id}_oversold_refund`) }
+    )
+  } catch (error) {
+    console.error('Error refunding oversold purchase:', error)
+    paymentStatus = 'oversold'
+  }
+
+  const { error } = await supabaseAdmin
+    .from('purchases')
+    .update({ payment_status: paymentStatus })
+    .eq('id', purchaseId)
+
+  if (error) {
+    console.error('Error flagging oversold purchase:', error)
+  }
 }
 
 // Stripe webhooks need raw body
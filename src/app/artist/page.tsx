@@ -1,34 +1,69 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { Header } from "@/components/Header"
 import { ArtworkUpload } from "@/components/ArtworkUpload"
 import { ArtworkGrid } from "@/components/ArtworkGrid"
+import { ArtistProfileEditor } from "@/components/ArtistProfileEditor"
+import { useWallet } from "@/components/WalletProvider"
+import { signInWithEthereum, fetchSessionAddress, signOut } from '@/lib/siwe'
+import { isUserRejection } from '@/lib/wallet-manager'
 
 export default function ArtistPage() {
-  const [isConnected, setIsConnected] = useState(false)
-  const [walletAddress, setWalletAddress] = useState('')
+  const wallet = useWallet()
+  const [sessionAddress, setSessionAddress] = useState<string | null>(null)
+  const [signingIn, setSigningIn] = useState(false)
+
+  // Resume an existing server session
+  useEffect(() => {
+    fetchSessionAddress().then(setSessionAddress)
+  }, [])
+
+  // A session only counts for the wallet that signed it; drop it if the user
+  // switches accounts or disconnects the wallet anywhere in the app
+  const previousWallet = useRef<string | null>(null)
+  useEffect(() => {
+    const switched = wallet.address && wallet.address.toLowerCase() !== sessionAddress
+    const disconnected = previousWallet.current && !wallet.address
+    previousWallet.current = wallet.address
+
+    if (sessionAddress && (switched || disconnected)) {
+      signOut().then(() => setSessionAddress(null))
+    }
+  }, [wallet.address, sessionAddress])
+
+  const isConnected = !!sessionAddress
+  const walletAddress = sessionAddress || ''
 
   const connectWallet = async () => {
     try {
-      if (typeof window !== 'undefined' && (window as any).ethereum) {
-        const accounts = await (window as any).ethereum.request({
-          method: 'eth_requestAccounts'
-        })
-        
-        if (accounts.length > 0) {
-          setWalletAddress(accounts[0])
-          setIsConnected(true)
-          // TODO: Create or fetch artist record
-        }
-      } else {
-        alert('Please install MetaMask to connect your wallet')
-      }
+      setSigningIn(true)
+      const connection = await wallet.connect()
+      
+      // Prove wallet ownership to the server before showing artist tools
+      const address = await signInWithEthereum(connection.signer, connection.chainId)
+      setSessionAddress(address)
     } catch (error) {
+      if (isUserRejection(error)) {
+        return
+      }
       console.error('Error connecting wallet:', error)
+      alert(error instanceof Error ? error.message : 'Failed to sign in with wallet')
+    } finally {
+      setSigningIn(false)
     }
   }
 
+  const handleSessionExpired = useCallback(() => {
+    setSessionAddress(null)
+  }, [])
+
+  const disconnect = async () => {
+    await signOut()
+    await wallet.disconnect()
+    setSessionAddress(null)
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -43,13 +78,14 @@ export default function ArtistPage() {
             <div className="bg-white rounded-lg p-8 text-center">
               <h2 className="text-xl font-semibold mb-4">Connect Your Wallet</h2>
               <p className="text-gray-600 mb-6">
-                Connect your wallet to start uploading and managing your NFT wallpapers
+                Connect and sign in with your wallet to start uploading and managing your NFT wallpapers
               </p>
               <button
                 onClick={connectWallet}
-                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+                disabled={signingIn || wallet.connecting}
+                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Connect Wallet
+                {signingIn ? 'Check your wallet...' : wallet.connected ? 'Sign In' : 'Connect Wallet'}
               </button>
             </div>
           ) : (
@@ -65,10 +101,7 @@ export default function ArtistPage() {
                     </p>
                   </div>
                   <button
-                    onClick={() => {
-                      setIsConnected(false)
-                      setWalletAddress('')
-                    }}
+                    onClick={disconnect}
                     className="text-red-600 hover:text-red-700"
                   >
                     Disconnect
@@ -76,14 +109,21 @@ export default function ArtistPage() {
                 </div>
               </div>
 
+              <div className="mb-8">
+                <h2 className="text-2xl font-semibold text-gray-900 mb-6">
+                  Your Profile
+                </h2>
+                <ArtistProfileEditor onSessionExpired={handleSessionExpired} />
+              </div>
+
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div>
                   <h2 className="text-2xl font-semibold text-gray-900 mb-6">
                     Upload New Artwork
                   </h2>
                   <ArtworkUpload 
-                    walletAddress={walletAddress}
                     onUploadSuccess={() => window.location.reload()}
+                    onSessionExpired={handleSessionExpired}
                   />
                 </div>
                 
@@ -91,7 +131,7 @@ export default function ArtistPage() {
                   <h2 className="text-2xl font-semibold text-gray-900 mb-6">
                     Your Artworks
                   </h2>
-                  <ArtworkGrid walletAddress={walletAddress} limit={20} />
+                  <ArtworkGrid walletAddress={walletAddress} limit={20} editable infinite />
                 </div>
               </div>
             </div>
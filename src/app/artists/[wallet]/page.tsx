@@ -0,0 +1,100 @@
+import { notFound } from 'next/navigation'
+import Image from 'next/image'
+import { ethers } from 'ethers'
+import { Header } from '@/components/Header'
+import { ArtworkGrid } from '@/components/ArtworkGrid'
+import { supabaseAdmin, PUBLIC_ARTIST_COLUMNS } from '@/lib/supabase'
+import { toSearchQuery } from '@/lib/search'
+
+async function getArtistProfile(wallet: string) {
+  if (!ethers.isAddress(wallet)) {
+    return null
+  }
+
+  const { data: artist, error } = await supabaseAdmin
+    .from('artists')
+    .select(PUBLIC_ARTIST_COLUMNS)
+    .eq('wallet_address', wallet.toLowerCase())
+    .single()
+
+  if (error || !artist) {
+    return null
+  }
+
+  const { data: artworks } = await supabaseAdmin
+    .from('artworks')
+    .select('current_editions, max_editions')
+    .eq('artist_id', artist.id)
+    .eq('status', 'published')
+
+  const stats = {
+    artworks: artworks?.length || 0,
+    editionsSold: (artworks || []).reduce((sum, a) => sum + a.current_editions, 0),
+    soldOut: (artworks || []).filter(a => a.current_editions >= a.max_editions).length
+  }
+
+  return { artist, stats }
+}
+
+export default async function ArtistProfilePage({ params }: { params: { wallet: string } }) {
+  const profile = await getArtistProfile(params.wallet)
+
+  if (!profile) {
+    notFound()
+  }
+
+  const { artist, stats } = profile
+  const shortWallet = `${artist.wallet_address.slice(0, 6)}...${artist.wallet_address.slice(-4)}`
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      
+      <main className="container mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg p-6 mb-8 flex flex-col sm:flex-row gap-6 items-start">
+          <div className="relative w-24 h-24 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
+            {artist.avatar_url && (
+              <Image
+                src={artist.avatar_url}
+                alt={artist.name || shortWallet}
+                fill
+                className="object-cover"
+                sizes="96px"
+              />
+            )}
+          </div>
+          
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-gray-900 mb-1">
+              {artist.name || `Artist ${shortWallet}`}
+            </h1>
+            <p className="text-gray-500 font-mono text-sm mb-4">
+              {artist.wallet_address}
+            </p>
+            
+            {artist.bio && (
+              <p className="text-gray-700 leading-relaxed mb-4">
+                {artist.bio}
+              </p>
+            )}
+            
+            <div className="flex gap-6 text-sm text-gray-600">
+              <div>
+                <span className="font-semibold text-gray-900">{stats.artworks}</span> artworks
+              </div>
+              <div>
+                <span className="font-semibold text-gray-900">{stats.editionsSold}</span> editions sold
+              </div>
+              <div>
+                <span className="font-semibold text-gray-900">{stats.soldOut}</span> sold out
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <h2 className="text-2xl font-semibold text-gray-900 mb-6">Artworks</h2>
+        <ArtworkGrid searchQuery={toSearchQuery({ artist: artist.wallet_address })} infinite />
+      </main>
+    </div>
+  )
+}
@@ -1,19 +1,24 @@
 import { notFound } from 'next/navigation'
 import Image from 'next/image'
+import Link from 'next/link'
 import { Header } from '@/components/Header'
 import { PurchaseButton } from '@/components/PurchaseButton'
-import { supabase } from '@/lib/supabase'
+import { supabaseAdmin, PUBLIC_ARTIST_COLUMNS, PUBLIC_ARTWORK_COLUMNS, type PublicArtwork } from '@/lib/supabase'
+import { formatRoyalty } from '@/lib/royalty'
+import { findNetwork, getContractAddress, getExplorerUrl } from '@/lib/networks'
 
 async function getArtwork(id: string) {
-  const { data: artwork, error } = await supabase
+  // Read server-side so the artist join isn't hidden by RLS; only public columns leave
+  const { data: artwork, error } = await supabaseAdmin
     .from('artworks')
     .select(`
-      *,
-      artist:artists(*)
+      ${PUBLIC_ARTWORK_COLUMNS},
+      artist:artists(${PUBLIC_ARTIST_COLUMNS})
     `)
     .eq('id', id)
-    .eq('is_active', true)
+    .eq('status', 'published')
     .single()
+    .overrideTypes<PublicArtwork, { merge: false }>()
 
   if (error || !artwork) {
     return null
@@ -30,6 +35,11 @@ export default async function ArtworkPage({ params }: { params: { id: string } }
   }
 
   const isAvailable = artwork.current_editions < artwork.max_editions
+  const network = findNetwork(artwork.chain_id)
+  const contractAddress = network && getContractAddress(network)
+  const tokenUrl = network && contractAddress && artwork.token_id
+    ? getExplorerUrl(network, 'token', `${contractAddress}?a=${artwork.token_id}`)
+    : null
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -58,9 +68,16 @@ export default async function ArtworkPage({ params }: { params: { id: string } }
               
               <div className="flex items-center space-x-2 text-gray-600 mb-4">
                 <span>by</span>
-                <span className="font-semibold text-gray-900">
-                  {artwork.artist?.name || 'Unknown Artist'}
-                </span>
+                {artwork.artist ? (
+                  <Link
+                    href={`/artists/${artwork.artist.wallet_address}`}
+                    className="font-semibold text-gray-900 hover:text-blue-600 hover:underline"
+                  >
+                    {artwork.artist.name || 'Unknown Artist'}
+                  </Link>
+                ) : (
+                  <span className="font-semibold text-gray-900">Unknown Artist</span>
+                )}
                 {artwork.category && (
                   <>
                     <span>•</span>
@@ -87,6 +104,25 @@ export default async function ArtworkPage({ params }: { params: { id: string } }
                   <span> minted</span>
                 </div>
                 
+                <div>
+                  <span className="font-semibold text-gray-900">
+                    {formatRoyalty(artwork.royalty_bps)}
+                  </span>
+                  <span> artist royalty on resales</span>
+                </div>
+                
+                {network && (
+                  <div>
+                    {tokenUrl ? (
+                      <a href={tokenUrl} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600 hover:underline">
+                        Token #{artwork.token_id} on {network.name}
+                      </a>
+                    ) : (
+                      <span>On {network.name}</span>
+                    )}
+                  </div>
+                )}
+                
                 {!isAvailable && (
                   <span className="bg-red-100 text-red-800 px-2 py-1 rounded text-xs font-semibold">
                     SOLD OUT
@@ -109,12 +145,13 @@ export default async function ArtworkPage({ params }: { params: { id: string } }
                 <h3 className="font-semibold text-gray-900 mb-2">Tags</h3>
                 <div className="flex flex-wrap gap-2">
                   {artwork.tags.map((tag: string, index: number) => (
-                    <span
+                    <Link
                       key={index}
-                      className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm"
+                      href={`/browse?tag=${encodeURIComponent(tag)}`}
+                      className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm hover:bg-gray-200"
                     >
                       {tag}
-                    </span>
+                    </Link>
                   ))}
                 </div>
               </div>
@@ -1,7 +1,22 @@
+import { Suspense } from 'react'
 import { Header } from "@/components/Header"
 import { ArtworkGrid } from "@/components/ArtworkGrid"
+import { BrowseFilters } from "@/components/BrowseFilters"
+import { parseSearchParams, toSearchQuery } from '@/lib/search'
+
+export default function BrowsePage({
+  searchParams
+}: {
+  searchParams: Record<string, string | string[] | undefined>
+}) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (typeof value === 'string') {
+      params.set(key, value)
+    }
+  }
+  const searchQuery = toSearchQuery(parseSearchParams(params))
 
-export default function BrowsePage() {
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -17,28 +32,13 @@ export default function BrowsePage() {
         </div>
 
         <div className="mb-6">
-          {/* TODO: Add filters for category, price range, etc */}
-          <div className="flex gap-2 flex-wrap">
-            <button className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm">
-              All
-            </button>
-            <button className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm hover:bg-gray-300">
-              Abstract
-            </button>
-            <button className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm hover:bg-gray-300">
-              Nature
-            </button>
-            <button className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm hover:bg-gray-300">
-              Digital Art
-            </button>
-            <button className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm hover:bg-gray-300">
-              Photography
-            </button>
-          </div>
+          <Suspense>
+            <BrowseFilters />
+          </Suspense>
         </div>
 
-        <ArtworkGrid />
+        <ArtworkGrid searchQuery={searchQuery} infinite />
       </main>
     </div>
   )
-}
\ No newline at end of file
+}
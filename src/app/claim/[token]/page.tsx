@@ -0,0 +1,97 @@
+import { notFound } from 'next/navigation'
+import Image from 'next/image'
+import { Header } from '@/components/Header'
+import { ClaimNftButton } from '@/components/ClaimNftButton'
+import { supabaseAdmin } from '@/lib/supabase'
+import { isVoucherMintMode } from '@/lib/vouchers'
+
+async function getClaimablePurchase(token: string) {
+  // The claim token itself is the buyer's proof of purchase; the page renders no personal details
+  const { data: purchase, error } = await supabaseAdmin
+    .from('purchases')
+    .select(`
+      *,
+      artwork:artworks(
+        *,
+        artist:artists(name)
+      )
+    `)
+    .eq('claim_token', token)
+    .single()
+
+  if (error || !purchase) {
+    return null
+  }
+
+  return purchase
+}
+
+export default async function ClaimPage({ params }: { params: { token: string } }) {
+  const purchase = await getClaimablePurchase(params.token)
+
+  if (!purchase || !purchase.artwork) {
+    notFound()
+  }
+
+  const { artwork } = purchase
+  const voucherMode = isVoucherMintMode()
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto bg-white rounded-lg p-6 space-y-6">
+          <div className="relative aspect-square rounded-lg overflow-hidden">
+            <Image
+              src={artwork.image_url}
+              alt={artwork.title}
+              fill
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, 28rem"
+              priority
+            />
+          </div>
+
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">
+              Claim your NFT
+            </h1>
+            <p className="text-gray-600">
+              &ldquo;{artwork.title}&rdquo; by {artwork.artist?.name || 'Unknown Artist'}
+            </p>
+          </div>
+
+          {purchase.payment_status !== 'completed' ? (
+            <p className="text-red-700 bg-red-50 rounded-lg p-4">
+              This purchase was refunded or is under dispute, so its NFT can&apos;t be claimed.
+            </p>
+          ) : purchase.nft_minted ? (
+            <p className="text-green-700 bg-green-50 rounded-lg p-4">
+              This NFT has already been minted to <span className="font-mono break-all">{purchase.buyer_wallet_address}</span>.
+            </p>
+          ) : purchase.buyer_wallet_address && !voucherMode ? (
+            <p className="text-green-700 bg-green-50 rounded-lg p-4">
+              This NFT has been claimed and will be minted to <span className="font-mono break-all">{purchase.buyer_wallet_address}</span> shortly.
+            </p>
+          ) : (
+            <>
+              {!purchase.buyer_wallet_address && (
+                <p className="text-gray-600">
+                  Connect the wallet you want the NFT in and sign a message to prove it&apos;s yours.
+                  Signing is free and doesn&apos;t send a transaction.
+                </p>
+              )}
+              <ClaimNftButton
+                claimToken={params.token}
+                purchaseId={purchase.id}
+                claimedWallet={purchase.buyer_wallet_address || null}
+                voucherMode={voucherMode}
+              />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
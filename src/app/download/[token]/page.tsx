@@ -0,0 +1,140 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Header } from '@/components/Header'
+import { supabaseAdmin } from '@/lib/supabase'
+import { findWallpaperTarget, type WallpaperVariant } from '@/lib/wallpapers'
+
+async function getDownloadToken(token: string) {
+  // The token is the buyer's proof of purchase; the page renders no personal details
+  const { data: downloadToken, error } = await supabaseAdmin
+    .from('download_tokens')
+    .select(`
+      *,
+      purchase:purchases!inner(
+        *,
+        artwork:artworks!inner(
+          *,
+          artist:artists(name)
+        )
+      )
+    `)
+    .eq('token', token)
+    .single()
+
+  if (error || !downloadToken) {
+    return null
+  }
+
+  return downloadToken
+}
+
+function formatSize(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export default async function DownloadPage({ params }: { params: { token: string } }) {
+  const downloadToken = await getDownloadToken(params.token)
+
+  if (!downloadToken) {
+    notFound()
+  }
+
+  const { artwork } = downloadToken.purchase
+  const wallpapers: WallpaperVariant[] = artwork.wallpaper_variants || []
+  const remaining = Math.max(downloadToken.max_downloads - downloadToken.download_count, 0)
+  const expired = new Date(downloadToken.expires_at) < new Date()
+  const downloadUrl = (variant: string) => `/api/download/${params.token}?variant=${variant}`
+
+  const linkClass = 'flex items-center justify-between border border-gray-200 rounded-lg px-4 py-3 hover:border-blue-500 hover:bg-blue-50 transition-colors'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto bg-white rounded-lg p-6 space-y-6">
+          <div className="relative aspect-square rounded-lg overflow-hidden">
+            <Image
+              src={artwork.image_url}
+              alt={artwork.title}
+              fill
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, 28rem"
+              priority
+            />
+          </div>
+
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">
+              Download your wallpaper
+            </h1>
+            <p className="text-gray-600">
+              &ldquo;{artwork.title}&rdquo; by {artwork.artist?.name || 'Unknown Artist'}
+            </p>
+          </div>
+
+          {downloadToken.revoked_at ? (
+            <p className="text-red-700 bg-red-50 rounded-lg p-4">
+              This purchase was refunded or is under dispute, so its downloads are unavailable.
+            </p>
+          ) : expired ? (
+            <p className="text-red-700 bg-red-50 rounded-lg p-4">
+              This download link has expired. <Link href="/orders" className="underline">Get a new one</Link>.
+            </p>
+          ) : remaining === 0 ? (
+            <p className="text-red-700 bg-red-50 rounded-lg p-4">
+              You&apos;ve used all {downloadToken.max_downloads} downloads for this link.{' '}
+              <Link href="/orders" className="underline">Get a new one</Link>.
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-600">
+                Pick the size for your screen, or get them all in one zip. Each file, or the zip,
+                counts as one download: you have {remaining} of {downloadToken.max_downloads} left,
+                until {new Date(downloadToken.expires_at).toLocaleDateString()}.
+              </p>
+
+              <div className="space-y-2">
+                <a href={downloadUrl('original')} className={linkClass}>
+                  <span className="font-semibold text-gray-900">Original</span>
+                  {artwork.original_size && (
+                    <span className="text-sm text-gray-500">{formatSize(artwork.original_size)}</span>
+                  )}
+                </a>
+
+                {wallpapers.map(variant => (
+                  <a key={variant.key} href={downloadUrl(variant.key)} className={linkClass}>
+                    <span className="font-semibold text-gray-900">
+                      {findWallpaperTarget(variant.key)?.label || variant.key}
+                    </span>
+                    <span className="text-sm text-gray-500">
+                      {variant.width}×{variant.height} · {formatSize(variant.size)}
+                    </span>
+                  </a>
+                ))}
+              </div>
+
+              {artwork.original_path && wallpapers.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  Sizes for phones, tablets and desktops are still being prepared. Check back in a few minutes.
+                </p>
+              )}
+
+              {wallpapers.length > 0 && (
+                <a
+                  href={downloadUrl('all')}
+                  className="block w-full text-center bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+                >
+                  Download All (.zip)
+                </a>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,122 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { Header } from '@/components/Header'
+import { ReissueDownloadButton } from '@/components/ReissueDownloadButton'
+import { supabaseAdmin, type DownloadToken } from '@/lib/supabase'
+import { emailPattern, getOrderLookupEmail } from '@/lib/orders'
+
+const STATUS_LABELS: Record<string, string> = {
+  refunded: 'Refunded',
+  disputed: 'Under dispute',
+  oversold: 'Sold out, refunded'
+}
+
+async function getOrders(buyerEmail: string) {
+  const { data: purchases, error } = await supabaseAdmin
+    .from('purchases')
+    .select(`
+      *,
+      artwork:artworks(*),
+      download_tokens(*)
+    `)
+    .ilike('buyer_email', emailPattern(buyerEmail))
+    .in('payment_status', ['completed', 'refunded', 'disputed', 'oversold'])
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Error loading orders: ${error.message}`)
+  }
+
+  return purchases || []
+}
+
+// A token the buyer can still download with, newest first
+function findUsableToken(tokens: DownloadToken[]): DownloadToken | undefined {
+  return [...tokens]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .find(token =>
+      !token.revoked_at &&
+      new Date(token.expires_at) > new Date() &&
+      token.download_count < token.max_downloads
+    )
+}
+
+export default async function OrdersPage({ params }: { params: { token: string } }) {
+  const buyerEmail = await getOrderLookupEmail(params.token)
+  const orders = buyerEmail ? await getOrders(buyerEmail) : []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-16">
+        <div className="max-w-2xl mx-auto bg-white rounded-lg p-6 space-y-6">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Your orders
+          </h1>
+
+          {!buyerEmail ? (
+            <p className="text-red-700 bg-red-50 rounded-lg p-4">
+              This link has expired or is invalid.{' '}
+              <Link href="/orders" className="underline">Look up your orders again</Link> to get a new one.
+            </p>
+          ) : orders.length === 0 ? (
+            <p className="text-gray-600">
+              There are no orders for <span className="font-semibold">{buyerEmail}</span>.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {orders.map(order => {
+                const usableToken = findUsableToken(order.download_tokens || [])
+
+                return (
+                  <li key={order.id} className="flex gap-4 py-4">
+                    <div className="relative w-20 h-20 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+                      {order.artwork && (
+                        <Image
+                          src={order.artwork.thumbnail_url || order.artwork.image_url}
+                          alt={order.artwork.title}
+                          fill
+                          className="object-cover"
+                          sizes="80px"
+                        />
+                      )}
+                    </div>
+
+                    <div className="flex-1 space-y-2">
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {order.artwork?.title || 'Deleted artwork'}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          Order #{order.id} · {new Date(order.created_at).toLocaleDateString()} · ${order.amount_paid_usd}
+                        </p>
+                      </div>
+
+                      {order.payment_status !== 'completed' ? (
+                        <p className="text-sm text-red-700">
+                          {STATUS_LABELS[order.payment_status] || order.payment_status}: downloads are unavailable
+                        </p>
+                      ) : usableToken ? (
+                        <Link
+                          href={`/download/${usableToken.token}`}
+                          className="inline-block bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-semibold"
+                        >
+                          Go to Downloads ({usableToken.max_downloads - usableToken.download_count} left)
+                        </Link>
+                      ) : (
+                        <ReissueDownloadButton lookupToken={params.token} purchaseId={order.id} />
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export const dynamic = 'force-dynamic'
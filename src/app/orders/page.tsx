@@ -0,0 +1,26 @@
+import { Header } from '@/components/Header'
+import { OrderLookupForm } from '@/components/OrderLookupForm'
+
+export default function OrderLookupPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto bg-white rounded-lg p-6 space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">
+              Find your orders
+            </h1>
+            <p className="text-gray-600">
+              Lost your download email, or did your link expire? Enter the email you used at checkout
+              and we&apos;ll send you a link to your orders, where you can get new download links.
+            </p>
+          </div>
+
+          <OrderLookupForm />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -34,7 +34,7 @@ export default function Home() {
 
         <div className="mb-8">
           <h2 className="text-2xl font-semibold text-gray-900 mb-6">Featured Artworks</h2>
-          <ArtworkGrid limit={6} />
+          <ArtworkGrid limit={6} searchQuery="" />
         </div>
       </main>
     </div>
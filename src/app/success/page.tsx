@@ -43,7 +43,7 @@ function SuccessContent() {
             
             <p className="text-gray-600 mb-6">
               Thank you for your purchase! You will receive an email with your download link within a few minutes.
-              If you provided a wallet address, your NFT will be minted shortly.
+              If you provided a wallet address, your NFT will be minted shortly; otherwise the email includes a link to claim it.
             </p>
             
             <div className="space-y-3">
@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { Artist } from '@/lib/supabase'
+
+interface ArtistProfileEditorProps {
+  onSessionExpired?: () => void
+}
+
+export function ArtistProfileEditor({ onSessionExpired }: ArtistProfileEditorProps) {
+  const [artist, setArtist] = useState<Partial<Artist> | null>(null)
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    bio: ''
+  })
+  const [avatar, setAvatar] = useState<File | null>(null)
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    async function fetchProfile() {
+      try {
+        const response = await fetch('/api/artists/me')
+        if (response.status === 401) {
+          onSessionExpired?.()
+          return
+        }
+
+        const { artist } = await response.json()
+        setArtist(artist)
+        setFormData({
+          name: artist?.name || '',
+          email: artist?.email || '',
+          bio: artist?.bio || ''
+        })
+      } catch (error) {
+        console.error('Error fetching profile:', error)
+      }
+    }
+
+    fetchProfile()
+  }, [onSessionExpired])
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    if (selectedFile) {
+      setAvatar(selectedFile)
+
+      const reader = new FileReader()
+      reader.onload = () => {
+        setAvatarPreview(reader.result as string)
+      }
+      reader.readAsDataURL(selectedFile)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const profileFormData = new FormData()
+      profileFormData.append('name', formData.name)
+      profileFormData.append('email', formData.email)
+      profileFormData.append('bio', formData.bio)
+      if (avatar) {
+        profileFormData.append('avatar', avatar)
+      }
+
+      const response = await fetch('/api/artists/me', {
+        method: 'PATCH',
+        body: profileFormData,
+      })
+
+      const result = await response.json()
+
+      if (response.status === 401) {
+        onSessionExpired?.()
+        throw new Error(result.error || 'Please sign in again')
+      }
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Profile update failed')
+      }
+
+      setArtist(result.artist)
+      setAvatar(null)
+      setAvatarPreview(null)
+      alert('Profile saved')
+
+    } catch (error) {
+      console.error('Profile error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save profile. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!artist) {
+    return (
+      <div className="bg-white rounded-lg p-6 animate-pulse">
+        <div className="h-4 bg-gray-300 rounded mb-2"></div>
+        <div className="h-3 bg-gray-300 rounded w-2/3"></div>
+      </div>
+    )
+  }
+
+  const avatarSrc = avatarPreview || artist.avatar_url
+
+  return (
+    <div className="bg-white rounded-lg p-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
+            {avatarSrc && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={avatarSrc} alt="Avatar" className="w-full h-full object-cover" />
+            )}
+          </div>
+          <div>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={handleAvatarChange}
+              className="hidden"
+              id="avatar-upload"
+            />
+            <label
+              htmlFor="avatar-upload"
+              className="cursor-pointer text-blue-600 hover:text-blue-700 text-sm"
+            >
+              {avatarSrc ? 'Change avatar' : 'Upload avatar'}
+            </label>
+            <p className="text-xs text-gray-500">PNG, JPG, GIF up to 5MB</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Display Name *
+          </label>
+          <input
+            type="text"
+            required
+            maxLength={255}
+            value={formData.name}
+            onChange={(e) => setFormData({...formData, name: e.target.value})}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Your artist name"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Shown on your profile and recorded in the metadata of artworks you upload from now on
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email
+          </label>
+          <input
+            type="email"
+            value={formData.email}
+            onChange={(e) => setFormData({...formData, email: e.target.value})}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="you@example.com (private)"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Bio
+          </label>
+          <textarea
+            value={formData.bio}
+            onChange={(e) => setFormData({...formData, bio: e.target.value})}
+            rows={3}
+            maxLength={2000}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Tell collectors about yourself"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          {artist.wallet_address && (
+            <Link
+              href={`/artists/${artist.wallet_address}`}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              View public profile
+            </Link>
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save Profile'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
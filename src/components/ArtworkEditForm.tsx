@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import type { PublicArtwork, ArtworkStatus } from '@/lib/supabase'
+import { ARTWORK_STATUS_TRANSITIONS, ARTWORK_STATUS_LABELS } from '@/lib/artwork-status'
+import { MAX_ROYALTY_BPS } from '@/lib/royalty'
+
+interface ArtworkEditFormProps {
+  artwork: PublicArtwork
+  onSaved: (artwork: PublicArtwork) => void
+  onCancel: () => void
+}
+
+export function ArtworkEditForm({ artwork, onSaved, onCancel }: ArtworkEditFormProps) {
+  const [formData, setFormData] = useState({
+    title: artwork.title,
+    description: artwork.description || '',
+    price: String(artwork.price_usd),
+    maxEditions: String(artwork.max_editions),
+    royalty: String(artwork.royalty_bps / 100),
+    category: artwork.category || '',
+    tags: (artwork.tags || []).join(', '),
+    status: artwork.status,
+    publishAt: artwork.publish_at ? toLocalInputValue(artwork.publish_at) : ''
+  })
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/artworks/${artwork.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...formData,
+          publishAt: formData.status === 'scheduled' && formData.publishAt
+            ? new Date(formData.publishAt).toISOString()
+            : undefined
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Update failed')
+      }
+
+      onSaved({ ...artwork, ...result.artwork })
+
+    } catch (error) {
+      console.error('Update error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update artwork. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 bg-white rounded-lg p-4 border">
+      <input
+        type="text"
+        required
+        value={formData.title}
+        onChange={(e) => setFormData({...formData, title: e.target.value})}
+        className={inputClassName}
+        placeholder="Title"
+      />
+
+      <textarea
+        value={formData.description}
+        onChange={(e) => setFormData({...formData, description: e.target.value})}
+        rows={2}
+        className={inputClassName}
+        placeholder="Description"
+      />
+
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          type="number"
+          step="0.01"
+          min="0.01"
+          required
+          value={formData.price}
+          onChange={(e) => setFormData({...formData, price: e.target.value})}
+          className={inputClassName}
+          placeholder="Price (USD)"
+        />
+        <input
+          type="number"
+          min={Math.max(1, artwork.current_editions)}
+          required
+          disabled={!!artwork.token_id}
+          value={formData.maxEditions}
+          onChange={(e) => setFormData({...formData, maxEditions: e.target.value})}
+          className={`${inputClassName} disabled:bg-gray-100`}
+          placeholder="Max editions"
+        />
+      </div>
+
+      <input
+        type="number"
+        step="0.01"
+        min="0"
+        max={MAX_ROYALTY_BPS / 100}
+        required
+        disabled={!!artwork.token_id}
+        value={formData.royalty}
+        onChange={(e) => setFormData({...formData, royalty: e.target.value})}
+        className={`${inputClassName} disabled:bg-gray-100`}
+        placeholder="Resale royalty (%)"
+        title="Resale royalty (%)"
+      />
+
+      <select
+        value={formData.category}
+        onChange={(e) => setFormData({...formData, category: e.target.value})}
+        className={inputClassName}
+      >
+        <option value="">Select category</option>
+        <option value="Abstract">Abstract</option>
+        <option value="Nature">Nature</option>
+        <option value="Digital Art">Digital Art</option>
+        <option value="Photography">Photography</option>
+        <option value="Minimalist">Minimalist</option>
+        <option value="Fantasy">Fantasy</option>
+      </select>
+
+      <input
+        type="text"
+        value={formData.tags}
+        onChange={(e) => setFormData({...formData, tags: e.target.value})}
+        className={inputClassName}
+        placeholder="Tags (comma separated)"
+      />
+
+      <div className="grid grid-cols-2 gap-3">
+        <select
+          value={formData.status}
+          onChange={(e) => setFormData({...formData, status: e.target.value as ArtworkStatus})}
+          className={inputClassName}
+        >
+          {[artwork.status, ...ARTWORK_STATUS_TRANSITIONS[artwork.status]].map(status => (
+            <option key={status} value={status}>{ARTWORK_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        {formData.status === 'scheduled' && (
+          <input
+            type="datetime-local"
+            required
+            value={formData.publishAt}
+            onChange={(e) => setFormData({...formData, publishAt: e.target.value})}
+            className={inputClassName}
+          />
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-800 py-2 rounded-lg hover:bg-gray-300 transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+// Format an ISO timestamp for a datetime-local input in the browser's zone
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso)
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
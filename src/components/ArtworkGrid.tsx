@@ -1,38 +1,109 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
-import { supabase, type Artwork } from '@/lib/supabase'
+import { supabase, PUBLIC_ARTWORK_COLUMNS, type PublicArtwork, type ArtworkStatus } from '@/lib/supabase'
+import { ArtworkEditForm } from '@/components/ArtworkEditForm'
+import { ARTWORK_STATUS_LABELS } from '@/lib/artwork-status'
 
 interface ArtworkGridProps {
   limit?: number
   artistId?: number
   category?: string
   walletAddress?: string
+  searchQuery?: string
+  editable?: boolean
+  infinite?: boolean
 }
 
-export function ArtworkGrid({ limit, artistId, category, walletAddress }: ArtworkGridProps) {
-  const [artworks, setArtworks] = useState<Artwork[]>([])
+// Merge a new page into the list, skipping artworks already shown
+function appendUnique(current: PublicArtwork[], page: PublicArtwork[]): PublicArtwork[] {
+  const seen = new Set(current.map(a => a.id))
+  return [...current, ...page.filter(a => !seen.has(a.id))]
+}
+
+export function ArtworkGrid({ limit, artistId, category, walletAddress, searchQuery, editable, infinite }: ArtworkGridProps) {
+  const [artworks, setArtworks] = useState<PublicArtwork[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // API endpoint for paged queries, or null when querying Supabase directly
+  const pageUrl = useCallback((cursor: string | null) => {
+    const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''
+    if (searchQuery !== undefined) {
+      return `/api/search?${searchQuery}&limit=${limit || 24}${cursorParam}`
+    }
+    if (walletAddress) {
+      return `/api/artworks?wallet=${encodeURIComponent(walletAddress)}&limit=${limit || 10}${cursorParam}`
+    }
+    return null
+  }, [searchQuery, walletAddress, limit])
+
+  const replaceArtwork = (updated: PublicArtwork) => {
+    setArtworks(current => current.map(a => a.id === updated.id ? { ...a, ...updated } : a))
+  }
+
+  const setStatus = async (artwork: PublicArtwork, status: ArtworkStatus) => {
+    const response = await fetch(`/api/artworks/${artwork.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ status }),
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      alert(result.error || 'Failed to update artwork')
+      return
+    }
+
+    replaceArtwork(result.artwork)
+  }
+
+  const deleteArtwork = async (artwork: PublicArtwork) => {
+    if (!confirm(`Delete "${artwork.title}"? This cannot be undone.`)) {
+      return
+    }
+
+    const response = await fetch(`/api/artworks/${artwork.id}`, { method: 'DELETE' })
+    const result = await response.json()
+
+    if (!response.ok) {
+      alert(result.error || 'Failed to delete artwork')
+      return
+    }
+
+    setArtworks(current => current.filter(a => a.id !== artwork.id))
+  }
 
   useEffect(() => {
     async function fetchArtworks() {
+      setLoading(true)
+      setNextCursor(null)
+
       try {
-        if (walletAddress) {
-          // Use API route for wallet-based queries
-          const response = await fetch(`/api/artworks?wallet=${encodeURIComponent(walletAddress)}&limit=${limit || 10}`)
+        const url = pageUrl(null)
+
+        if (url) {
+          // Use API routes for search and wallet-based queries
+          const response = await fetch(url)
           const data = await response.json()
           setArtworks(data.artworks || [])
+          setNextCursor(data.nextCursor || null)
         } else {
           // Use direct Supabase query for other cases
           let query = supabase
             .from('artworks')
             .select(`
-              *,
+              ${PUBLIC_ARTWORK_COLUMNS},
               artist:artists(*)
             `)
-            .eq('is_active', true)
+            .eq('status', 'published')
             .order('created_at', { ascending: false })
 
           if (artistId) {
@@ -47,7 +118,7 @@ export function ArtworkGrid({ limit, artistId, category, walletAddress }: Artwor
             query = query.limit(limit)
           }
 
-          const { data, error } = await query
+          const { data, error } = await query.overrideTypes<PublicArtwork[], { merge: false }>()
 
           if (error) {
             console.error('Error fetching artworks:', error)
@@ -64,7 +135,44 @@ export function ArtworkGrid({ limit, artistId, category, walletAddress }: Artwor
     }
 
     fetchArtworks()
-  }, [limit, artistId, category, walletAddress])
+  }, [limit, artistId, category, pageUrl])
+
+  const loadMore = useCallback(async () => {
+    const url = nextCursor && pageUrl(nextCursor)
+    if (!url || loadingMore) {
+      return
+    }
+
+    setLoadingMore(true)
+
+    try {
+      const response = await fetch(url)
+      const data = await response.json()
+      setArtworks(current => appendUnique(current, data.artworks || []))
+      setNextCursor(data.nextCursor || null)
+    } catch (error) {
+      console.error('Error loading more artworks:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [nextCursor, pageUrl, loadingMore])
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!infinite || !sentinel || !nextCursor) {
+      return
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore()
+      }
+    }, { rootMargin: '400px' })
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [infinite, nextCursor, loadMore])
 
   if (loading) {
     return (
@@ -89,43 +197,108 @@ export function ArtworkGrid({ limit, artistId, category, walletAddress }: Artwor
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-      {artworks.map((artwork) => (
-        <Link 
-          key={artwork.id} 
-          href={`/artwork/${artwork.id}`}
-          className="group cursor-pointer"
-        >
-          <div className="relative aspect-square rounded-lg overflow-hidden mb-3">
-            <Image
-              src={artwork.image_url}
-              alt={artwork.title}
-              fill
-              className="object-cover group-hover:scale-105 transition-transform duration-300"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-            />
-            <div className="absolute inset-0 bg-black opacity-0 group-hover:opacity-20 transition-opacity duration-300" />
-          </div>
-          
-          <h3 className="font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
-            {artwork.title}
-          </h3>
-          
-          <div className="flex items-center justify-between mt-1">
-            <p className="text-sm text-gray-600">
-              by {artwork.artist?.name || 'Unknown Artist'}
-            </p>
-            <p className="font-semibold text-gray-900">
-              ${artwork.price_usd}
-            </p>
-          </div>
-          
-          <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
-            <span>{artwork.current_editions}/{artwork.max_editions} minted</span>
-            {artwork.category && <span>{artwork.category}</span>}
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {artworks.map((artwork) => (
+          <div key={artwork.id}>
+            {editingId === artwork.id ? (
+              <ArtworkEditForm
+                artwork={artwork}
+                onSaved={(updated) => {
+                  replaceArtwork(updated)
+                  setEditingId(null)
+                }}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <Link 
+                href={`/artwork/${artwork.id}`}
+                className="group cursor-pointer block"
+              >
+                <div className="relative aspect-square rounded-lg overflow-hidden mb-3">
+                  <Image
+                    src={artwork.thumbnail_url || artwork.image_url}
+                    alt={artwork.title}
+                    fill
+                    className="object-cover group-hover:scale-105 transition-transform duration-300"
+                    sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+                  />
+                  <div className="absolute inset-0 bg-black opacity-0 group-hover:opacity-20 transition-opacity duration-300" />
+                </div>
+                
+                <h3 className="font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
+                  {artwork.title}
+                </h3>
+              </Link>
+            )}
+
+            {editingId !== artwork.id && (
+              <>
+                <div className="flex items-center justify-between mt-1">
+                  <p className="text-sm text-gray-600">
+                    by{' '}
+                    {artwork.artist ? (
+                      <Link
+                        href={`/artists/${artwork.artist.wallet_address}`}
+                        className="hover:text-blue-600 hover:underline"
+                      >
+                        {artwork.artist.name || 'Unknown Artist'}
+                      </Link>
+                    ) : 'Unknown Artist'}
+                  </p>
+                  <p className="font-semibold text-gray-900">
+                    ${artwork.price_usd}
+                  </p>
+                </div>
+                
+                <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                  <span>{artwork.current_editions}/{artwork.max_editions} minted</span>
+                  {artwork.category && <span>{artwork.category}</span>}
+                </div>
+              </>
+            )}
+
+            {editable && editingId !== artwork.id && (
+              <div className="flex items-center gap-3 mt-2 text-sm">
+                {artwork.status !== 'published' && (
+                  <span
+                    className="bg-gray-200 text-gray-700 px-2 py-0.5 rounded text-xs"
+                    title={artwork.status === 'scheduled' && artwork.publish_at
+                      ? new Date(artwork.publish_at).toLocaleString()
+                      : undefined}
+                  >
+                    {ARTWORK_STATUS_LABELS[artwork.status]}
+                  </span>
+                )}
+                <button
+                  onClick={() => setEditingId(artwork.id)}
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => setStatus(artwork, artwork.status === 'published' ? 'archived' : 'published')}
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  {artwork.status === 'published' ? 'Archive' : 'Publish now'}
+                </button>
+                <button
+                  onClick={() => deleteArtwork(artwork)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
           </div>
-        </Link>
-      ))}
-    </div>
+        ))}
+      </div>
+
+      {infinite && nextCursor && (
+        <div ref={sentinelRef} className="text-center py-8 text-sm text-gray-500">
+          {loadingMore ? 'Loading more...' : ''}
+        </div>
+      )}
+    </>
   )
 }
\ No newline at end of file
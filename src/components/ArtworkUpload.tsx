@@ -1,29 +1,36 @@
 'use client'
 
 import { useState } from 'react'
+import { DEFAULT_ROYALTY_BPS, MAX_ROYALTY_BPS } from '@/lib/royalty'
 
 interface ArtworkUploadProps {
-  walletAddress: string
   onUploadSuccess: () => void
+  onSessionExpired?: () => void
 }
 
-export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadProps) {
+export function ArtworkUpload({ onUploadSuccess, onSessionExpired }: ArtworkUploadProps) {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     price: '',
     maxEditions: '1',
+    royalty: String(DEFAULT_ROYALTY_BPS / 100),
     category: '',
-    tags: ''
+    tags: '',
+    status: 'published',
+    publishAt: ''
   })
   const [file, setFile] = useState<File | null>(null)
   const [uploading, setUploading] = useState(false)
   const [preview, setPreview] = useState<string | null>(null)
+  // Point device wallpaper crops keep in frame, as fractions of the image
+  const [focalPoint, setFocalPoint] = useState({ x: 0.5, y: 0.5 })
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (selectedFile) {
       setFile(selectedFile)
+      setFocalPoint({ x: 0.5, y: 0.5 })
       
       // Create preview
       const reader = new FileReader()
@@ -34,6 +41,14 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
     }
   }
 
+  const handleFocalPointClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    setFocalPoint({
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1)
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -48,13 +63,20 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
       // Create form data for API request
       const uploadFormData = new FormData()
       uploadFormData.append('file', file)
-      uploadFormData.append('walletAddress', walletAddress)
       uploadFormData.append('title', formData.title)
       uploadFormData.append('description', formData.description)
       uploadFormData.append('price', formData.price)
       uploadFormData.append('maxEditions', formData.maxEditions)
+      uploadFormData.append('royalty', formData.royalty)
       uploadFormData.append('category', formData.category)
       uploadFormData.append('tags', formData.tags)
+      uploadFormData.append('status', formData.status)
+      uploadFormData.append('focalX', focalPoint.x.toFixed(4))
+      uploadFormData.append('focalY', focalPoint.y.toFixed(4))
+      if (formData.status === 'scheduled' && formData.publishAt) {
+        // datetime-local has no zone; send it as the artist's local time
+        uploadFormData.append('publishAt', new Date(formData.publishAt).toISOString())
+      }
 
       const response = await fetch('/api/artworks', {
         method: 'POST',
@@ -63,6 +85,11 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
 
       const result = await response.json()
 
+      if (response.status === 401) {
+        onSessionExpired?.()
+        throw new Error(result.error || 'Please sign in again')
+      }
+
       if (!response.ok) {
         throw new Error(result.error || 'Upload failed')
       }
@@ -75,11 +102,15 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
         description: '',
         price: '',
         maxEditions: '1',
+        royalty: String(DEFAULT_ROYALTY_BPS / 100),
         category: '',
-        tags: ''
+        tags: '',
+        status: 'published',
+        publishAt: ''
       })
       setFile(null)
       setPreview(null)
+      setFocalPoint({ x: 0.5, y: 0.5 })
       
       onUploadSuccess()
 
@@ -101,13 +132,23 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
           <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
             {preview ? (
               <div className="space-y-4">
-                {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img 
-                  src={preview} 
-                  alt="Preview" 
-                  className="max-w-full h-48 object-cover mx-auto rounded"
-                />
-                {/* Using img tag here for preview as Image component requires width/height */}
+                <div className="relative inline-block">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img 
+                    src={preview} 
+                    alt="Preview" 
+                    onClick={handleFocalPointClick}
+                    className="max-w-full max-h-64 rounded cursor-crosshair"
+                  />
+                  {/* Using img tag here for preview as Image component requires width/height */}
+                  <span
+                    className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-blue-600 shadow pointer-events-none"
+                    style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Click the image to set its focal point. Phone, tablet and desktop wallpapers are cropped around it.
+                </p>
                 <button
                   type="button"
                   onClick={() => {
@@ -202,6 +243,25 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
           </div>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Resale Royalty (%)
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            max={MAX_ROYALTY_BPS / 100}
+            required
+            value={formData.royalty}
+            onChange={(e) => setFormData({...formData, royalty: e.target.value})}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Paid to you on secondary sales by marketplaces that honour EIP-2981. Up to {MAX_ROYALTY_BPS / 100}%; fixed once the token is created on-chain, which happens at the first sale.
+          </p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Category
@@ -234,12 +294,36 @@ export function ArtworkUpload({ walletAddress, onUploadSuccess }: ArtworkUploadP
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Release
+          </label>
+          <select
+            value={formData.status}
+            onChange={(e) => setFormData({...formData, status: e.target.value})}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="published">Publish now</option>
+            <option value="scheduled">Schedule for later</option>
+            <option value="draft">Save as draft</option>
+          </select>
+          {formData.status === 'scheduled' && (
+            <input
+              type="datetime-local"
+              required
+              value={formData.publishAt}
+              onChange={(e) => setFormData({...formData, publishAt: e.target.value})}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+
         <button
           type="submit"
           disabled={uploading}
           className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {uploading ? 'Uploading...' : 'Upload Artwork'}
+          {uploading ? 'Uploading...' : formData.status === 'published' ? 'Upload Artwork' : 'Save Artwork'}
         </button>
       </form>
     </div>
@@ -0,0 +1,140 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import {
+  parseSearchParams,
+  toSearchQuery,
+  CATEGORIES,
+  SEARCH_SORTS,
+  SORT_LABELS,
+  type ArtworkSearchParams
+} from '@/lib/search'
+
+export function BrowseFilters() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const search = parseSearchParams(new URLSearchParams(searchParams.toString()))
+
+  // Text inputs are applied on submit rather than on every keystroke
+  const [text, setText] = useState({
+    q: search.q || '',
+    minPrice: search.minPrice?.toString() || '',
+    maxPrice: search.maxPrice?.toString() || ''
+  })
+
+  useEffect(() => {
+    setText({
+      q: search.q || '',
+      minPrice: search.minPrice?.toString() || '',
+      maxPrice: search.maxPrice?.toString() || ''
+    })
+  }, [search.q, search.minPrice, search.maxPrice])
+
+  const update = (changes: Partial<ArtworkSearchParams>) => {
+    const query = toSearchQuery({ ...search, ...changes })
+    router.push(query ? `/browse?${query}` : '/browse')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    update({
+      q: text.q.trim() || undefined,
+      minPrice: text.minPrice ? parseFloat(text.minPrice) : undefined,
+      maxPrice: text.maxPrice ? parseFloat(text.maxPrice) : undefined
+    })
+  }
+
+  const inputClassName = "border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex gap-2 flex-wrap">
+        <input
+          type="search"
+          value={text.q}
+          onChange={(e) => setText({...text, q: e.target.value})}
+          className={`${inputClassName} flex-1 min-w-[200px]`}
+          placeholder="Search titles, descriptions and tags"
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={text.minPrice}
+          onChange={(e) => setText({...text, minPrice: e.target.value})}
+          className={`${inputClassName} w-28`}
+          placeholder="Min $"
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={text.maxPrice}
+          onChange={(e) => setText({...text, maxPrice: e.target.value})}
+          className={`${inputClassName} w-28`}
+          placeholder="Max $"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+        >
+          Search
+        </button>
+      </form>
+
+      <div className="flex gap-2 flex-wrap">
+        {[undefined, ...CATEGORIES].map(category => (
+          <button
+            key={category || 'all'}
+            onClick={() => update({ category })}
+            className={search.category === category
+              ? 'px-4 py-2 bg-blue-600 text-white rounded-lg text-sm'
+              : 'px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm hover:bg-gray-300'}
+          >
+            {category || 'All'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!search.available}
+            onChange={(e) => update({ available: e.target.checked || undefined })}
+          />
+          Available only
+        </label>
+
+        <select
+          value={search.sort}
+          onChange={(e) => update({ sort: e.target.value as ArtworkSearchParams['sort'] })}
+          className={inputClassName}
+        >
+          {SEARCH_SORTS.map(sort => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+
+        {search.tag && (
+          <button
+            onClick={() => update({ tag: undefined })}
+            className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full"
+          >
+            #{search.tag} ×
+          </button>
+        )}
+
+        {search.artist && (
+          <button
+            onClick={() => update({ artist: undefined })}
+            className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full font-mono"
+          >
+            {search.artist.slice(0, 6)}...{search.artist.slice(-4)} ×
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { useWallet } from '@/components/WalletProvider'
+import { isUserRejection } from '@/lib/wallet-manager'
+import { nftClaimStatement, signSiweMessage } from '@/lib/siwe'
+import { REDEEM_ABI, type SignedMintVoucher } from '@/lib/vouchers'
+
+interface ClaimNftButtonProps {
+  claimToken: string
+  purchaseId: number
+  claimedWallet: string | null
+  voucherMode: boolean
+}
+
+export function ClaimNftButton({ claimToken, purchaseId, claimedWallet, voucherMode }: ClaimNftButtonProps) {
+  const [claiming, setClaiming] = useState(false)
+  const [claimedTo, setClaimedTo] = useState<string | null>(claimedWallet)
+  const [minted, setMinted] = useState(false)
+  const wallet = useWallet()
+
+  const getConnection = async () => {
+    if (wallet.signer && wallet.chainId) {
+      return { signer: wallet.signer, chainId: wallet.chainId }
+    }
+    return wallet.connect()
+  }
+
+  // Sign the claim message so the server attaches this wallet to the purchase
+  const claim = async (): Promise<string> => {
+    const connection = await getConnection()
+    const { message, signature } = await signSiweMessage(
+      connection.signer,
+      connection.chainId,
+      nftClaimStatement(purchaseId)
+    )
+
+    const response = await fetch(`/api/claim/${claimToken}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message, signature }),
+    })
+
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to claim NFT')
+    }
+
+    setClaimedTo(result.address)
+    return result.address
+  }
+
+  // Redeem a server-signed voucher from the connected wallet, which pays the gas
+  const redeem = async () => {
+    const voucherResponse = await fetch(`/api/claim/${claimToken}/voucher`, { method: 'POST' })
+    const signed: SignedMintVoucher & { error?: string } = await voucherResponse.json()
+
+    if (!voucherResponse.ok) {
+      throw new Error(signed.error || 'Failed to get mint voucher')
+    }
+
+    let connection = await getConnection()
+    if (connection.chainId !== signed.chainId) {
+      await wallet.switchChain(signed.chainId)
+      connection = await wallet.connect()
+    }
+
+    const contract = new ethers.Contract(signed.contractAddress, REDEEM_ABI, connection.signer)
+    const tx = await contract.redeem(signed.voucher, signed.signature)
+    await tx.wait()
+
+    const redeemedResponse = await fetch(`/api/claim/${claimToken}/redeemed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ txHash: tx.hash }),
+    })
+
+    if (!redeemedResponse.ok) {
+      const result = await redeemedResponse.json()
+      throw new Error(result.error || 'Minted, but failed to record it')
+    }
+
+    setMinted(true)
+  }
+
+  const handleClaim = async () => {
+    setClaiming(true)
+
+    try {
+      if (!claimedTo) {
+        await claim()
+      }
+      if (voucherMode) {
+        await redeem()
+      }
+    } catch (error) {
+      if (isUserRejection(error)) {
+        return
+      }
+      console.error('Claim error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to claim NFT')
+    } finally {
+      setClaiming(false)
+    }
+  }
+
+  if (minted) {
+    return (
+      <p className="text-green-700 bg-green-50 rounded-lg p-4">
+        Minted! The NFT is now in <span className="font-mono break-all">{claimedTo}</span>.
+      </p>
+    )
+  }
+
+  if (claimedTo && !voucherMode) {
+    return (
+      <p className="text-green-700 bg-green-50 rounded-lg p-4">
+        Claimed! Your NFT will be minted to <span className="font-mono break-all">{claimedTo}</span> shortly.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleClaim}
+        disabled={claiming || wallet.connecting}
+        className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {claiming
+          ? 'Claiming...'
+          : !wallet.connected
+            ? 'Connect Wallet to Claim'
+            : claimedTo ? 'Mint NFT' : 'Sign to Claim NFT'}
+      </button>
+      {claimedTo ? (
+        <p className="text-xs text-gray-500">
+          The NFT will be minted to <span className="font-mono">{claimedTo}</span>. Minting is a transaction
+          from your wallet, so it needs a little ETH for gas.
+        </p>
+      ) : wallet.address && (
+        <p className="text-xs text-gray-500">
+          The NFT will be minted to the connected wallet <span className="font-mono">{wallet.address}</span>
+        </p>
+      )}
+    </div>
+  )
+}
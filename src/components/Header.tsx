@@ -2,9 +2,32 @@
 
 import Link from 'next/link'
 import { useState } from 'react'
+import { useWallet } from '@/components/WalletProvider'
+import { isUserRejection } from '@/lib/wallet-manager'
 
 export function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const wallet = useWallet()
+
+  const connectWallet = async () => {
+    try {
+      await wallet.connect()
+    } catch (error) {
+      if (isUserRejection(error)) {
+        return
+      }
+      console.error('Error connecting wallet:', error)
+      alert(error instanceof Error ? error.message : 'Failed to connect wallet')
+    }
+  }
+
+  const switchNetwork = async () => {
+    try {
+      await wallet.switchChain(wallet.supportedChains[0])
+    } catch (error) {
+      console.error('Error switching network:', error)
+    }
+  }
 
   return (
     <header className="bg-white shadow-sm border-b">
@@ -24,12 +47,39 @@ export function Header() {
           </nav>
           
           <div className="flex items-center space-x-4">
-            <Link 
-              href="/artist"
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm"
-            >
-              Connect Wallet
-            </Link>
+            {wallet.unsupportedChain ? (
+              <button
+                onClick={switchNetwork}
+                className="bg-yellow-500 text-white px-4 py-2 rounded-lg hover:bg-yellow-600 transition-colors text-sm"
+              >
+                Switch Network
+              </button>
+            ) : wallet.connected && wallet.address ? (
+              <div className="flex items-center gap-2 text-sm">
+                <Link
+                  href="/artist"
+                  className="bg-gray-100 text-gray-800 px-3 py-2 rounded-lg font-mono hover:bg-gray-200"
+                  title={wallet.wallet?.name}
+                >
+                  {wallet.address.slice(0, 6)}...{wallet.address.slice(-4)}
+                </Link>
+                <button
+                  onClick={() => wallet.disconnect()}
+                  className="text-gray-500 hover:text-gray-900"
+                  title="Disconnect wallet"
+                >
+                  ×
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={connectWallet}
+                disabled={wallet.connecting}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {wallet.connecting ? 'Connecting...' : 'Connect Wallet'}
+              </button>
+            )}
             
             <button 
               className="md:hidden p-2"
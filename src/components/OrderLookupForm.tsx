@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from 'react'
+
+export function OrderLookupForm() {
+  const [email, setEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [sentMessage, setSentMessage] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+
+    try {
+      const response = await fetch('/api/orders/lookup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to look up orders')
+      }
+
+      setSentMessage(result.message)
+    } catch (error) {
+      console.error('Order lookup error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to look up orders')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (sentMessage) {
+    return (
+      <p className="text-green-700 bg-green-50 rounded-lg p-4">
+        {sentMessage} The link works for an hour.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Email used at checkout
+        </label>
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="you@example.com"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {submitting ? 'Sending...' : 'Email Me My Orders'}
+      </button>
+    </form>
+  )
+}
@@ -1,12 +1,14 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { loadStripe } from '@stripe/stripe-js'
 import { getStripePublishableKey } from '@/lib/stripe'
-import type { Artwork } from '@/lib/supabase'
+import type { PublicArtwork } from '@/lib/supabase'
+import { useWallet } from '@/components/WalletProvider'
+import { isUserRejection } from '@/lib/wallet-manager'
 
 interface PurchaseButtonProps {
-  artwork: Artwork
+  artwork: PublicArtwork
 }
 
 const stripePromise = loadStripe(getStripePublishableKey())
@@ -16,6 +18,27 @@ export function PurchaseButton({ artwork }: PurchaseButtonProps) {
   const [walletAddress, setWalletAddress] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [showForm, setShowForm] = useState(false)
+  const wallet = useWallet()
+
+  // Default the NFT recipient to the connected wallet
+  useEffect(() => {
+    if (wallet.address) {
+      setWalletAddress(current => current || wallet.address!)
+    }
+  }, [wallet.address])
+
+  const connectWallet = async () => {
+    try {
+      const connection = await wallet.connect()
+      setWalletAddress(connection.address)
+    } catch (error) {
+      if (isUserRejection(error)) {
+        return
+      }
+      console.error('Error connecting wallet:', error)
+      alert(error instanceof Error ? error.message : 'Failed to connect wallet')
+    }
+  }
 
   const handlePurchase = async () => {
     if (!email) {
@@ -108,9 +131,29 @@ export function PurchaseButton({ artwork }: PurchaseButtonProps) {
           className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
           placeholder="0x..."
         />
-        <p className="text-xs text-gray-500 mt-1">
-          Provide your wallet address to also receive the NFT
-        </p>
+        <div className="flex items-center justify-between mt-1">
+          <p className="text-xs text-gray-500">
+            Provide your wallet address to also receive the NFT
+          </p>
+          {!wallet.connected ? (
+            <button
+              type="button"
+              onClick={connectWallet}
+              disabled={wallet.connecting}
+              className="text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              {wallet.connecting ? 'Connecting...' : 'Connect wallet'}
+            </button>
+          ) : wallet.address && walletAddress.toLowerCase() !== wallet.address.toLowerCase() && (
+            <button
+              type="button"
+              onClick={() => setWalletAddress(wallet.address!)}
+              className="text-xs text-blue-600 hover:text-blue-700"
+            >
+              Use connected wallet
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex gap-3">
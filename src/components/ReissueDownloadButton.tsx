@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+
+interface ReissueDownloadButtonProps {
+  lookupToken: string
+  purchaseId: number
+}
+
+export function ReissueDownloadButton({ lookupToken, purchaseId }: ReissueDownloadButtonProps) {
+  const [issuing, setIssuing] = useState(false)
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null)
+
+  const handleReissue = async () => {
+    setIssuing(true)
+
+    try {
+      const response = await fetch(`/api/orders/${lookupToken}/reissue`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ purchaseId }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to get a new download link')
+      }
+
+      setDownloadUrl(result.downloadUrl)
+    } catch (error) {
+      console.error('Reissue error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to get a new download link')
+    } finally {
+      setIssuing(false)
+    }
+  }
+
+  if (downloadUrl) {
+    return (
+      <a
+        href={downloadUrl}
+        className="inline-block bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-semibold"
+      >
+        Go to Downloads
+      </a>
+    )
+  }
+
+  return (
+    <button
+      onClick={handleReissue}
+      disabled={issuing}
+      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {issuing ? 'Issuing...' : 'Get New Download Link'}
+    </button>
+  )
+}
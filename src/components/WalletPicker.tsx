@@ -0,0 +1,59 @@
+'use client'
+
+import type { WalletProviderInfo } from '@/lib/wallet-manager'
+
+interface WalletPickerProps {
+  wallets: WalletProviderInfo[]
+  onSelect: (rdns: string) => void
+  onCancel: () => void
+}
+
+export function WalletPicker({ wallets, onSelect, onCancel }: WalletPickerProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Choose a wallet</h2>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-900"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {wallets.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No browser wallet found. Install a wallet extension and reload the page.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {wallets.map(wallet => (
+              <li key={wallet.uuid}>
+                <button
+                  onClick={() => onSelect(wallet.rdns)}
+                  className="w-full flex items-center gap-3 border border-gray-200 rounded-lg px-4 py-3 hover:bg-gray-50 transition-colors"
+                >
+                  {wallet.icon ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={wallet.icon} alt="" className="w-8 h-8" />
+                  ) : (
+                    <div className="w-8 h-8 rounded-full bg-gray-200" />
+                  )}
+                  <span className="font-medium text-gray-900">{wallet.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import {
+  getWalletManager,
+  type Connection,
+  type WalletProviderInfo,
+  type WalletState,
+  type WalletStateManager
+} from '@/lib/wallet-manager'
+import { WalletPicker } from '@/components/WalletPicker'
+
+interface WalletContextValue extends WalletState {
+  connect: (rdns?: string) => Promise<Connection>
+  disconnect: () => Promise<void>
+  switchChain: (chainId: number) => Promise<void>
+  unsupportedChain: boolean
+  supportedChains: number[]
+  wallets: WalletProviderInfo[]
+  manager: WalletStateManager | null
+}
+
+const INITIAL_STATE: WalletState = {
+  address: null,
+  chainId: null,
+  provider: null,
+  signer: null,
+  wallet: null,
+  connected: false,
+  connecting: false,
+  error: null
+}
+
+const WalletContext = createContext<WalletContextValue | null>(null)
+
+export function WalletProvider({ children }: { children: React.ReactNode }) {
+  const [manager, setManager] = useState<WalletStateManager | null>(null)
+  const [state, setState] = useState<WalletState>(INITIAL_STATE)
+  const [wallets, setWallets] = useState<WalletProviderInfo[]>([])
+  const [picking, setPicking] = useState(false)
+  const pickerRequest = useRef<{ resolve: (rdns: string) => void; reject: (error: Error) => void } | null>(null)
+
+  // The manager touches window, so create it only once mounted in the browser
+  useEffect(() => {
+    const instance = getWalletManager()
+    setManager(instance)
+    setWallets(instance.getAvailableWallets())
+
+    const updateWallets = (available: WalletProviderInfo[]) => setWallets(available)
+    instance.on('walletsChanged', updateWallets)
+    const unsubscribe = instance.subscribe(setState)
+
+    return () => {
+      instance.off('walletsChanged', updateWallets)
+      unsubscribe()
+    }
+  }, [])
+
+  // Ask the user which wallet to use when several are installed
+  const pickWallet = useCallback(() => {
+    pickerRequest.current?.reject(Object.assign(new Error('Wallet selection cancelled'), { code: 4001 }))
+    setPicking(true)
+    return new Promise<string>((resolve, reject) => {
+      pickerRequest.current = { resolve, reject }
+    })
+  }, [])
+
+  const closePicker = (rdns: string | null) => {
+    const request = pickerRequest.current
+    pickerRequest.current = null
+    setPicking(false)
+
+    if (rdns) {
+      request?.resolve(rdns)
+    } else {
+      // Closing the picker counts as the user rejecting the connection
+      request?.reject(Object.assign(new Error('Wallet selection cancelled'), { code: 4001 }))
+    }
+  }
+
+  const connect = useCallback(async (rdns?: string) => {
+    const instance = getWalletManager()
+    const current = instance.getState()
+
+    if (!rdns && !current.connected && instance.getAvailableWallets().length > 1) {
+      rdns = await pickWallet()
+    }
+
+    return instance.connectWalletWithRetry(rdns)
+  }, [pickWallet])
+
+  const disconnect = useCallback(async () => {
+    await getWalletManager().disconnect()
+  }, [])
+
+  const switchChain = useCallback(async (chainId: number) => {
+    await getWalletManager().switchChain(chainId)
+  }, [])
+
+  const supportedChains = manager?.getSupportedChains() || []
+  const unsupportedChain = state.connected && state.chainId !== null && !supportedChains.includes(state.chainId)
+
+  return (
+    <WalletContext.Provider value={{
+      ...state,
+      connect,
+      disconnect,
+      switchChain,
+      unsupportedChain,
+      supportedChains,
+      wallets,
+      manager
+    }}>
+      {children}
+      {picking && (
+        <WalletPicker
+          wallets={wallets}
+          onSelect={(rdns) => closePicker(rdns)}
+          onCancel={() => closePicker(null)}
+        />
+      )}
+    </WalletContext.Provider>
+  )
+}
+
+export function useWallet(): WalletContextValue {
+  const context = useContext(WalletContext)
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider')
+  }
+  return context
+}
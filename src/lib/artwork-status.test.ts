@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { canTransition, isArtworkStatus, validateSchedule } from '@/lib/artwork-status'
+
+describe('isArtworkStatus', () => {
+  it('accepts the four statuses only', () => {
+    expect(['draft', 'scheduled', 'published', 'archived'].every(isArtworkStatus)).toBe(true)
+    expect(isArtworkStatus('deleted')).toBe(false)
+    expect(isArtworkStatus('toString')).toBe(false)
+    expect(isArtworkStatus(1)).toBe(false)
+  })
+})
+
+describe('canTransition', () => {
+  it('follows the lifecycle', () => {
+    expect(canTransition('draft', 'scheduled')).toBe(true)
+    expect(canTransition('draft', 'published')).toBe(true)
+    expect(canTransition('scheduled', 'published')).toBe(true)
+    expect(canTransition('published', 'archived')).toBe(true)
+    expect(canTransition('archived', 'published')).toBe(true)
+  })
+
+  it('allows staying put', () => {
+    expect(canTransition('published', 'published')).toBe(true)
+  })
+
+  it('refuses skipping back from published', () => {
+    expect(canTransition('published', 'draft')).toBe(false)
+    expect(canTransition('published', 'scheduled')).toBe(false)
+    expect(canTransition('archived', 'scheduled')).toBe(false)
+  })
+})
+
+describe('validateSchedule', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('ignores the time for other statuses', () => {
+    expect(validateSchedule('published')).toBeNull()
+    expect(validateSchedule('draft', 'not a date')).toBeNull()
+  })
+
+  it('requires a valid time when scheduling', () => {
+    expect(validateSchedule('scheduled')).toBe('Scheduled artworks need a publish time')
+    expect(validateSchedule('scheduled', 'tomorrow')).toBe('Scheduled artworks need a publish time')
+  })
+
+  it('requires the time to be in the future', () => {
+    expect(validateSchedule('scheduled', '2026-01-01T11:59:00Z')).toBe('Publish time must be in the future')
+    expect(validateSchedule('scheduled', '2026-01-01T12:01:00Z')).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import type { ArtworkStatus } from '@/lib/supabase'
+
+// Allowed lifecycle moves: draft -> scheduled -> published -> archived
+export const ARTWORK_STATUS_TRANSITIONS: Record<ArtworkStatus, ArtworkStatus[]> = {
+  draft: ['scheduled', 'published'],
+  scheduled: ['draft', 'published'],
+  published: ['archived'],
+  archived: ['published', 'draft']
+}
+
+export const ARTWORK_STATUS_LABELS: Record<ArtworkStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived'
+}
+
+export function isArtworkStatus(value: unknown): value is ArtworkStatus {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ARTWORK_STATUS_TRANSITIONS, value)
+}
+
+export function canTransition(from: ArtworkStatus, to: ArtworkStatus): boolean {
+  return from === to || ARTWORK_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Validate a requested status and publish time, returning an error message if invalid
+ */
+export function validateSchedule(status: ArtworkStatus, publishAt?: string | null): string | null {
+  if (status !== 'scheduled') {
+    return null
+  }
+
+  if (!publishAt || isNaN(Date.parse(publishAt))) {
+    return 'Scheduled artworks need a publish time'
+  }
+
+  if (new Date(publishAt) <= new Date()) {
+    return 'Publish time must be in the future'
+  }
+
+  return null
+}
@@ -0,0 +1,194 @@
+// Server-side wallet authentication: SIWE nonces, session cookies and Supabase tokens
+
+import crypto from 'crypto'
+import { ethers } from 'ethers'
+import type { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, createUserClient } from '@/lib/supabase'
+import { parseSiweMessage, SIWE_STATEMENT } from '@/lib/siwe'
+import { signJwt, verifyJwt, type JwtPayload } from '@/lib/jwt'
+
+export const SESSION_COOKIE = 'imnotart_session'
+
+const SESSION_TTL = 24 * 60 * 60 // 24 hours, in seconds
+const NONCE_TTL = 10 * 60 * 1000 // 10 minutes
+const SUPABASE_TOKEN_TTL = 60 * 60 // 1 hour, in seconds
+
+export interface WalletSession {
+  address: string
+  expiresAt: number
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is required')
+  }
+  return secret
+}
+
+function getSupabaseJwtSecret(): string {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET environment variable is required')
+  }
+  return secret
+}
+
+/**
+ * Issue a single-use SIWE nonce
+ */
+export async function createNonce(): Promise<string> {
+  const nonce = crypto.randomBytes(16).toString('hex')
+
+  const { error } = await supabaseAdmin
+    .from('auth_nonces')
+    .insert({
+      nonce,
+      expires_at: new Date(Date.now() + NONCE_TTL).toISOString()
+    })
+
+  if (error) {
+    throw new Error(`Error storing nonce: ${error.message}`)
+  }
+
+  return nonce
+}
+
+/**
+ * Verify a signed SIWE message and consume its nonce.
+ * The statement must match, so a message signed for one purpose can't be used for another.
+ * Returns the checksummed wallet address on success.
+ */
+export async function verifySiweSignIn(
+  messageText: string,
+  signature: string,
+  expectedDomain: string,
+  expectedStatement: string = SIWE_STATEMENT
+): Promise<string> {
+  const message = parseSiweMessage(messageText)
+  if (!message) {
+    throw new AuthError('Malformed sign-in message')
+  }
+
+  if (message.domain !== expectedDomain) {
+    throw new AuthError('Sign-in message domain mismatch')
+  }
+
+  if (message.statement !== expectedStatement) {
+    throw new AuthError('Sign-in message statement mismatch')
+  }
+
+  if (message.expirationTime && new Date(message.expirationTime) < new Date()) {
+    throw new AuthError('Sign-in message has expired')
+  }
+
+  let recovered: string
+  try {
+    recovered = ethers.verifyMessage(messageText, signature)
+  } catch {
+    throw new AuthError('Invalid signature')
+  }
+
+  if (recovered.toLowerCase() !== message.address.toLowerCase()) {
+    throw new AuthError('Signature does not match address')
+  }
+
+  // Consume the nonce atomically so a signed message can only be used once
+  const { data: consumed } = await supabaseAdmin
+    .from('auth_nonces')
+    .update({ used_at: new Date().toISOString(), wallet_address: recovered.toLowerCase() })
+    .eq('nonce', message.nonce)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce')
+    .maybeSingle()
+
+  if (!consumed) {
+    throw new AuthError('Invalid or expired nonce')
+  }
+
+  return ethers.getAddress(recovered)
+}
+
+/**
+ * Create a signed session token for a verified wallet
+ */
+export function createSessionToken(address: string): string {
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt({ sub: address.toLowerCase(), iat: now, exp: now + SESSION_TTL }, getSessionSecret())
+}
+
+/**
+ * Read the wallet session from the request cookie
+ */
+export function getWalletSession(request: NextRequest): WalletSession | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (!token) {
+    return null
+  }
+
+  const payload = verifyJwt<JwtPayload>(token, getSessionSecret())
+  if (!payload) {
+    return null
+  }
+
+  return { address: payload.sub, expiresAt: payload.exp * 1000 }
+}
+
+/**
+ * Mint a Supabase-compatible access token whose subject is the wallet.
+ * RLS policies read the wallet back through requesting_wallet().
+ */
+function createSupabaseAccessToken(address: string): string {
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt({
+    sub: address.toLowerCase(),
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + SUPABASE_TOKEN_TTL
+  }, getSupabaseJwtSecret())
+}
+
+/**
+ * Supabase client scoped to the session wallet, subject to RLS. The token stays on the
+ * server: handed to the browser it would let artists write columns the routes validate.
+ */
+export function getSessionClient(session: WalletSession) {
+  return createUserClient(createSupabaseAccessToken(session.address))
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, address: string): void {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(address), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL
+  })
+}
+
+/**
+ * Remove the session cookie from a response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+}
+
+/**
+ * Whether a request carries CRON_SECRET as a bearer token (scheduler and operator calls)
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const authorization = request.headers.get('authorization')
+  return !!process.env.CRON_SECRET && authorization === `Bearer ${process.env.CRON_SECRET}`
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
@@ -1,20 +1,44 @@
 import { ethers } from 'ethers'
 import { EventEmitter } from 'events'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getContractAddress, getDefaultChainId, getNetwork, getRpcUrl, type NetworkConfig } from '@/lib/networks'
+import {
+  MINT_VOUCHER_TYPES,
+  VOUCHER_DOMAIN_NAME,
+  VOUCHER_DOMAIN_VERSION,
+  type MintVoucher,
+  type SignedMintVoucher
+} from '@/lib/vouchers'
 
 // Contract ABI for the ImNotArtNFT contract (only the functions we need)
 const CONTRACT_ABI = [
-  "function createToken(address artist, uint256 maxSupply, string memory metadataURI) external returns (uint256)",
+  "function createToken(address artist, uint256 maxSupply, string memory metadataURI, uint96 royaltyBps) external returns (uint256)",
   "function mintToken(uint256 tokenId, address buyer, uint256 amount) external",
+  "function mintBatch(uint256[] tokenIds, address[] buyers, uint256[] amounts) external",
+  "function voucherRedeemed(uint256 nonce) external view returns (bool)",
   "function getTokenInfo(uint256 tokenId) external view returns (tuple(address artist, uint256 maxSupply, uint256 currentSupply, uint256 royaltyPercentage, string metadataURI))",
   "function owner() external view returns (address)",
-  "event TokenCreated(uint256 indexed tokenId, address indexed artist)",
-  "event TokenMinted(uint256 indexed tokenId, address indexed buyer, uint256 amount)"
+  "event TokenCreated(uint256 indexed tokenId, address indexed artist, uint256 maxSupply, string metadataURI)",
+  "event TokenMinted(uint256 indexed tokenId, address indexed artist, address indexed buyer, uint256 amount)",
+  "event VoucherRedeemed(uint256 indexed nonce, uint256 indexed tokenId, address indexed recipient, uint256 amount)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)"
 ]
 
+export interface ContractEvent {
+  name: string
+  args: ethers.Result
+  blockNumber: number
+  blockHash: string
+  txHash: string
+  logIndex: number
+}
+
 interface MintParams {
   tokenId: number
   buyerAddress: string
   amount: number
+  onSent?: (txHash: string) => Promise<void> // Each hash the mint goes out under, speed-ups included
 }
 
 interface MintResult {
@@ -25,6 +49,12 @@ interface MintResult {
   blockNumber: number
 }
 
+interface PendingMint {
+  params: MintParams
+  resolve: (result: MintResult) => void
+  reject: (error: Error) => void
+}
+
 interface TxStatus {
   hash: string
   status: 'pending' | 'confirmed' | 'failed'
@@ -34,6 +64,25 @@ interface TxStatus {
   error?: string
 }
 
+interface FeeSettings {
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+interface TrackedTransaction extends FeeSettings {
+  nonce: number
+  method: string
+  request: ethers.TransactionRequest
+  hashes: string[] // Original hash first, then each speed-up replacement
+  sentAt: number
+  onSent?: (hash: string) => Promise<void>
+}
+
+export type SentTransactionState =
+  | { state: 'mined'; receipt: ethers.TransactionReceipt }
+  | { state: 'pending' }
+  | { state: 'dropped' }
+
 interface GasEstimate {
   estimatedGas: bigint
   gasPrice: bigint
@@ -47,60 +96,68 @@ export class ContractService extends EventEmitter {
   private provider: ethers.JsonRpcProvider
   private contract: ethers.Contract
   private wallet: ethers.Wallet
+  private voucherSigner: ethers.Wallet
   private gasEstimator: GasEstimator
   private transactionMonitor: TransactionMonitor
+  private transactionManager: TransactionManager
   private readonly GAS_BUFFER = 1.2 // 20% buffer for gas estimation
   private readonly MAX_GAS_PRICE = ethers.parseUnits('100', 'gwei')
-  private readonly CONFIRMATION_BLOCKS = 2
+  // Blocks a transaction must be buried under before it counts as final, from the network registry
+  readonly CONFIRMATION_BLOCKS: number
+  private readonly MINT_BATCH_WINDOW_MS = 2000
+  private readonly MAX_MINT_BATCH_SIZE = 20
+  private pendingMints: PendingMint[] = []
+  private mintBatchTimer: NodeJS.Timeout | null = null
 
-  constructor() {
+  constructor(readonly network: NetworkConfig) {
     super()
     
     if (!process.env.PRIVATE_KEY) {
       throw new Error('PRIVATE_KEY environment variable is required')
     }
     
-    if (!process.env.CONTRACT_ADDRESS) {
-      throw new Error('CONTRACT_ADDRESS environment variable is required')
+    const contractAddress = getContractAddress(network)
+    if (!contractAddress) {
+      throw new Error(`No contract deployed on ${network.name}; run the deploy script or set ${network.contractAddressEnv || 'its contractAddress in networks.json'}`)
     }
 
-    const rpcUrl = process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://sepolia.base.org'
-    this.provider = new ethers.JsonRpcProvider(rpcUrl)
+    this.CONFIRMATION_BLOCKS = network.confirmations
+    this.provider = new ethers.JsonRpcProvider(getRpcUrl(network), network.chainId, { staticNetwork: true })
     this.wallet = new ethers.Wallet(process.env.PRIVATE_KEY, this.provider)
-    this.contract = new ethers.Contract(process.env.CONTRACT_ADDRESS, CONTRACT_ABI, this.wallet)
+    this.contract = new ethers.Contract(contractAddress, CONTRACT_ABI, this.wallet)
+    // Vouchers may be signed by a separate key, set on the contract with setVoucherSigner
+    this.voucherSigner = new ethers.Wallet(process.env.VOUCHER_SIGNER_PRIVATE_KEY || process.env.PRIVATE_KEY)
     
     // Initialize helpers
     this.gasEstimator = new GasEstimator(this.provider)
     this.transactionMonitor = new TransactionMonitor(this.provider)
-    
-    // Set up event listeners
-    this.setupEventListeners()
-  }
-
-  private setupEventListeners(): void {
-    // Listen for contract events
-    this.contract.on('TokenCreated', (tokenId, artist) => {
-      console.log(`Token created: ID ${tokenId} for artist ${artist}`)
-      this.emit('tokenCreated', { tokenId, artist })
+    this.transactionManager = new TransactionManager(this.wallet, network.chainId, this.MAX_GAS_PRICE, {
+      onSent: (hash, method) => this.emit('transactionSent', { hash, method }),
+      onReplaced: (hash, method, replaces) => this.emit('transactionReplaced', { hash, method, replaces })
     })
     
-    this.contract.on('TokenMinted', (tokenId, buyer, amount) => {
-      console.log(`Token minted: ID ${tokenId} to ${buyer}, amount ${amount}`)
-      this.emit('tokenMinted', { tokenId, buyer, amount })
-    })
+    // Contract events are read by the indexer (src/lib/indexer.ts) rather than
+    // subscribed to here, so none are missed while no process is running
   }
 
   /**
-   * Create a new token on the contract with gas estimation
+   * Create a new token on the contract with gas estimation. onSent is told each hash
+   * the creation goes out under, so a retry can find it instead of creating a second token.
    */
-  async createToken(artistAddress: string, maxSupply: number, metadataURI: string): Promise<number> {
+  async createToken(
+    artistAddress: string,
+    maxSupply: number,
+    metadataURI: string,
+    royaltyBps: number,
+    onSent?: (txHash: string) => Promise<void>
+  ): Promise<number> {
     try {
-      console.log(`Creating token for artist ${artistAddress}, maxSupply: ${maxSupply}`)
+      console.log(`Creating token for artist ${artistAddress}, maxSupply: ${maxSupply}, royalty: ${royaltyBps} bps`)
       
       // Estimate gas
       const gasEstimate = await this.estimateGasWithBuffer(
         'createToken',
-        [artistAddress, maxSupply, metadataURI]
+        [artistAddress, maxSupply, metadataURI, royaltyBps]
       )
       
       console.log(`Gas estimate for createToken: ${gasEstimate.totalCostEth} ETH`)
@@ -110,58 +167,33 @@ export class ContractService extends EventEmitter {
         throw new Error(`Gas price too high: ${ethers.formatUnits(gasEstimate.gasPrice, 'gwei')} gwei`)
       }
       
-      // Send transaction with estimated gas
-      const tx = await this.contract.createToken(
+      // Send through the transaction manager, which assigns the nonce and
+      // speeds the transaction up if it gets stuck
+      const request = await this.contract.createToken.populateTransaction(
         artistAddress,
         maxSupply,
         metadataURI,
-        {
-          gasLimit: gasEstimate.estimatedGas,
-          maxFeePerGas: gasEstimate.maxFeePerGas,
-          maxPriorityFeePerGas: gasEstimate.maxPriorityFeePerGas
-        }
+        royaltyBps
+      )
+      const receipt = await this.transactionManager.send(
+        'createToken',
+        { ...request, gasLimit: gasEstimate.estimatedGas },
+        gasEstimate,
+        this.CONFIRMATION_BLOCKS,
+        onSent
       )
       
-      // Monitor transaction
-      this.emit('transactionSent', { hash: tx.hash, method: 'createToken' })
-      const monitorPromise = this.transactionMonitor.monitorTransaction(tx.hash)
-      
-      // Wait for confirmation
-      const receipt = await tx.wait(this.CONFIRMATION_BLOCKS)
-      
-      // Get monitoring result
-      const status = await monitorPromise
+      const tokenId = this.getCreatedTokenId(receipt)
+      console.log(`Token created with ID: ${tokenId}, gas used: ${receipt.gasUsed}`)
       
-      if (status.status === 'failed') {
-        throw new Error(`Transaction failed: ${status.error}`)
-      }
-      
-      // Find the TokenCreated event to get the token ID
-      const event = receipt.logs.find((log: ethers.Log) => {
-        try {
-          const parsed = this.contract.interface.parseLog(log)
-          return parsed?.name === 'TokenCreated'
-        } catch {
-          return false
-        }
+      this.emit('tokenCreated', {
+        tokenId,
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed,
+        blockNumber: receipt.blockNumber
       })
       
-      if (event) {
-        const parsed = this.contract.interface.parseLog(event)
-        const tokenId = Number(parsed?.args[0])
-        console.log(`Token created with ID: ${tokenId}, gas used: ${receipt.gasUsed}`)
-        
-        this.emit('tokenCreated', {
-          tokenId,
-          txHash: receipt.hash,
-          gasUsed: receipt.gasUsed,
-          blockNumber: receipt.blockNumber
-        })
-        
-        return tokenId
-      }
-      
-      throw new Error('TokenCreated event not found in transaction receipt')
+      return tokenId
       
     } catch (error: any) {
       console.error('Error creating token:', error)
@@ -196,34 +228,27 @@ export class ContractService extends EventEmitter {
         }
       }
       
-      // Send transaction with estimated gas
-      const tx = await this.contract.mintToken(
+      // Send through the transaction manager, which assigns the nonce and
+      // speeds the transaction up if it gets stuck
+      const request = await this.contract.mintToken.populateTransaction(
         params.tokenId,
         params.buyerAddress,
-        params.amount,
-        {
-          gasLimit: gasEstimate.estimatedGas,
-          maxFeePerGas: gasEstimate.maxFeePerGas,
-          maxPriorityFeePerGas: gasEstimate.maxPriorityFeePerGas
-        }
+        params.amount
+      )
+      const receipt = await this.transactionManager.send(
+        'mintToken',
+        { ...request, gasLimit: gasEstimate.estimatedGas },
+        gasEstimate,
+        this.CONFIRMATION_BLOCKS,
+        params.onSent
       )
       
-      // Monitor transaction
-      this.emit('transactionSent', { hash: tx.hash, method: 'mintToken' })
-      const status = await this.monitorTransaction(tx.hash)
-      
-      if (status.status === 'failed') {
-        throw new Error(`Transaction failed: ${status.error}`)
-      }
-      
-      // Wait for confirmation
-      const receipt = await tx.wait(this.CONFIRMATION_BLOCKS)
-      
+      const effectiveGasPrice = receipt.gasPrice || gasEstimate.gasPrice
       const result: MintResult = {
         txHash: receipt.hash,
         gasUsed: receipt.gasUsed,
-        effectiveGasPrice: receipt.gasPrice || gasEstimate.gasPrice,
-        totalCost: receipt.gasUsed.mul(receipt.gasPrice || gasEstimate.gasPrice),
+        effectiveGasPrice,
+        totalCost: receipt.gasUsed * effectiveGasPrice,
         blockNumber: receipt.blockNumber
       }
       
@@ -245,6 +270,130 @@ export class ContractService extends EventEmitter {
     }
   }
 
+  /**
+   * Mint several token IDs to several buyers in one transaction
+   */
+  async mintBatchWithGasEstimation(mints: MintParams[]): Promise<MintResult> {
+    const args = [
+      mints.map(mint => mint.tokenId),
+      mints.map(mint => mint.buyerAddress),
+      mints.map(mint => mint.amount)
+    ]
+
+    try {
+      console.log(`Minting batch of ${mints.length}`)
+
+      // Surface a reverting entry before paying gas; gas estimation falls back silently
+      await this.contract.mintBatch.staticCall(...args)
+
+      const gasEstimate = await this.estimateGasWithBuffer('mintBatch', args)
+
+      console.log(`Gas estimate for mintBatch: ${gasEstimate.totalCostEth} ETH`)
+
+      if (gasEstimate.gasPrice > this.MAX_GAS_PRICE) {
+        throw new Error(`Gas price too high: ${ethers.formatUnits(gasEstimate.gasPrice, 'gwei')} gwei`)
+      }
+
+      const request = await this.contract.mintBatch.populateTransaction(...args)
+      const receipt = await this.transactionManager.send(
+        'mintBatch',
+        { ...request, gasLimit: gasEstimate.estimatedGas },
+        gasEstimate,
+        this.CONFIRMATION_BLOCKS,
+        async hash => {
+          await Promise.all(mints.map(mint => mint.onSent?.(hash)))
+        }
+      )
+
+      const effectiveGasPrice = receipt.gasPrice || gasEstimate.gasPrice
+      const result: MintResult = {
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed,
+        effectiveGasPrice,
+        totalCost: receipt.gasUsed * effectiveGasPrice,
+        blockNumber: receipt.blockNumber
+      }
+
+      console.log(`Batch of ${mints.length} minted successfully:`, result)
+
+      for (const mint of mints) {
+        this.emit('tokenMinted', {
+          tokenId: mint.tokenId,
+          buyer: mint.buyerAddress,
+          amount: mint.amount,
+          ...result
+        })
+      }
+
+      return result
+
+    } catch (error: any) {
+      console.error('Error minting batch:', error)
+      await this.handleTransactionFailure(error)
+      throw error
+    }
+  }
+
+  /**
+   * Queue a mint to go out with others requested within a short window.
+   * Resolves with the transaction that minted this entry.
+   */
+  queueMint(params: MintParams): Promise<MintResult> {
+    return new Promise((resolve, reject) => {
+      this.pendingMints.push({ params, resolve, reject })
+
+      if (this.pendingMints.length >= this.MAX_MINT_BATCH_SIZE) {
+        this.flushMints()
+      } else if (!this.mintBatchTimer) {
+        this.mintBatchTimer = setTimeout(() => this.flushMints(), this.MINT_BATCH_WINDOW_MS)
+      }
+    })
+  }
+
+  /**
+   * Send the queued mints, falling back to one transaction each if the batch can't go through
+   */
+  private async flushMints(): Promise<void> {
+    if (this.mintBatchTimer) {
+      clearTimeout(this.mintBatchTimer)
+      this.mintBatchTimer = null
+    }
+
+    const batch = this.pendingMints.splice(0, this.MAX_MINT_BATCH_SIZE)
+
+    // Mints queued while this batch was being taken start the next window
+    if (this.pendingMints.length > 0) {
+      this.mintBatchTimer = setTimeout(() => this.flushMints(), this.MINT_BATCH_WINDOW_MS)
+    }
+
+    if (batch.length === 0) {
+      return
+    }
+
+    if (batch.length > 1) {
+      try {
+        const result = await this.mintBatchWithGasEstimation(batch.map(mint => mint.params))
+        batch.forEach(mint => mint.resolve(result))
+        return
+      } catch (error: any) {
+        // Only a batch that provably minted nothing is safe to retry one by one
+        if (!isRevert(error)) {
+          batch.forEach(mint => mint.reject(error))
+          return
+        }
+        console.warn('Batch mint reverted, minting entries individually')
+      }
+    }
+
+    for (const mint of batch) {
+      try {
+        mint.resolve(await this.mintNFTWithGasEstimation(mint.params))
+      } catch (error: any) {
+        mint.reject(error)
+      }
+    }
+  }
+
   /**
    * Legacy mint method for backward compatibility
    */
@@ -253,6 +402,51 @@ export class ContractService extends EventEmitter {
     return result.txHash
   }
 
+  /**
+   * What became of transactions sent by an earlier attempt: the receipt of one that mined
+   * successfully and is final, pending while any could still land, else dropped
+   */
+  async findSentTransaction(hashes: string[]): Promise<SentTransactionState> {
+    let pending = false
+
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash)
+      if (receipt) {
+        if (receipt.status === 1) {
+          return await receipt.confirmations() >= this.CONFIRMATION_BLOCKS
+            ? { state: 'mined', receipt }
+            : { state: 'pending' }
+        }
+        continue
+      }
+
+      // Still in the mempool; replaced and cancelled versions are no longer found
+      if (await this.provider.getTransaction(hash)) {
+        pending = true
+      }
+    }
+
+    return pending ? { state: 'pending' } : { state: 'dropped' }
+  }
+
+  /**
+   * Token ID from the TokenCreated event in a createToken receipt
+   */
+  getCreatedTokenId(receipt: ethers.TransactionReceipt): number {
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.contract.interface.parseLog(log)
+        if (parsed?.name === 'TokenCreated') {
+          return Number(parsed.args[0])
+        }
+      } catch {
+        // Not one of our events
+      }
+    }
+
+    throw new Error('TokenCreated event not found in transaction receipt')
+  }
+
   /**
    * Monitor transaction status
    */
@@ -324,7 +518,8 @@ export class ContractService extends EventEmitter {
     if (errorInfo.message.includes('insufficient funds')) {
       console.error('Wallet has insufficient funds for gas')
     } else if (errorInfo.message.includes('nonce')) {
-      console.error('Nonce mismatch - possible pending transaction')
+      console.error('Nonce mismatch - resyncing nonce from chain')
+      this.transactionManager.resync()
     } else if (errorInfo.message.includes('replacement fee too low')) {
       console.error('Gas price too low to replace existing transaction')
     }
@@ -332,6 +527,122 @@ export class ContractService extends EventEmitter {
     this.emit('transactionFailed', errorInfo)
   }
 
+  /**
+   * Sign an EIP-712 voucher the recipient can redeem on the contract themselves.
+   * The nonce makes it single-use; the expiry bounds how long it stays valid.
+   */
+  async signMintVoucher(
+    params: MintParams & { nonce: number },
+    ttlSeconds: number
+  ): Promise<SignedMintVoucher> {
+    const { chainId } = this.network
+    const contractAddress = await this.contract.getAddress()
+
+    const voucher: MintVoucher = {
+      tokenId: String(params.tokenId),
+      recipient: ethers.getAddress(params.buyerAddress),
+      amount: String(params.amount),
+      expiry: String(Math.floor(Date.now() / 1000) + ttlSeconds),
+      nonce: String(params.nonce)
+    }
+
+    const signature = await this.voucherSigner.signTypedData(
+      {
+        name: VOUCHER_DOMAIN_NAME,
+        version: VOUCHER_DOMAIN_VERSION,
+        chainId,
+        verifyingContract: contractAddress
+      },
+      MINT_VOUCHER_TYPES,
+      voucher
+    )
+
+    return { voucher, signature, contractAddress, chainId }
+  }
+
+  /**
+   * Whether the voucher with this nonce has been redeemed on-chain
+   */
+  async isVoucherRedeemed(nonce: number): Promise<boolean> {
+    return this.contract.voucherRedeemed(nonce)
+  }
+
+  /**
+   * Find the redemption of a voucher in a transaction, if it succeeded there
+   */
+  async getVoucherRedemption(
+    txHash: string,
+    nonce: number
+  ): Promise<{ tokenId: number; recipient: string; blockNumber: number } | null> {
+    const receipt = await this.provider.getTransactionReceipt(txHash)
+    if (!receipt || receipt.status !== 1) {
+      return null
+    }
+
+    const contractAddress = (await this.contract.getAddress()).toLowerCase()
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== contractAddress) {
+        continue
+      }
+
+      const parsed = this.contract.interface.parseLog(log)
+      if (parsed?.name === 'VoucherRedeemed' && Number(parsed.args.nonce) === nonce) {
+        return {
+          tokenId: Number(parsed.args.tokenId),
+          recipient: parsed.args.recipient,
+          blockNumber: receipt.blockNumber
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Latest block number on the chain
+   */
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber()
+  }
+
+  /**
+   * Hash of a block on the node's current canonical chain
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.provider.getBlock(blockNumber)
+    return block?.hash || null
+  }
+
+  /**
+   * Decoded contract events in an inclusive block range, in chain order
+   */
+  async getContractEvents(fromBlock: number, toBlock: number): Promise<ContractEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: await this.contract.getAddress(),
+      fromBlock,
+      toBlock
+    })
+
+    const events: ContractEvent[] = []
+    for (const log of logs) {
+      const parsed = this.contract.interface.parseLog(log)
+      if (!parsed) {
+        continue // Events the ABI doesn't list (e.g. ownership, URI changes)
+      }
+
+      events.push({
+        name: parsed.name,
+        args: parsed.args,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.index
+      })
+    }
+
+    return events
+  }
+
   /**
    * Get information about a token
    */
@@ -364,6 +675,20 @@ export class ContractService extends EventEmitter {
     }
   }
 
+  /**
+   * Transactions sent but not yet confirmed
+   */
+  getInFlightTransactions(): { nonce: number; method: string; hashes: string[]; sentAt: number }[] {
+    return this.transactionManager.getInFlight()
+  }
+
+  /**
+   * Let another process send from the hot wallet once this one is done
+   */
+  releaseWalletLease(): Promise<void> {
+    return this.transactionManager.releaseLease()
+  }
+
   /**
    * Get the wallet address used by this service
    */
@@ -398,6 +723,418 @@ class GasEstimator {
   }
 }
 
+/**
+ * Serializes sends from the hot wallet. Only the process holding the wallet's
+ * lease in wallet_leases sends, so nonces can be handed out locally without
+ * colliding; transactions that sit unmined are re-sent at the same nonce with
+ * higher fees, and cancelled if they still haven't mined at the timeout; and on
+ * taking the lease the next nonce is recovered from the chain, cancelling anything
+ * a previous holder left stuck in the mempool.
+ */
+class TransactionManager {
+  private nextNonce: number | null = null
+  private sendQueue: Promise<unknown> = Promise.resolve()
+  private inFlight: Map<number, TrackedTransaction> = new Map()
+  private readonly leaseHolder = `sender-${crypto.randomUUID()}`
+  private leaseUntil = 0
+  // Sends run inside the jobs cron: 45s of claiming under a 60s function limit, and a
+  // 5 minute job lease. A send is sped up after 10s, cancelled at 30s and given up 10s
+  // later, so it settles before the function is killed and long before its job is re-leased.
+  private readonly STUCK_AFTER_MS = 10 * 1000
+  private readonly CONFIRMATION_TIMEOUT_MS = 30 * 1000
+  private readonly CANCEL_TIMEOUT_MS = 10 * 1000
+  private readonly POLL_INTERVAL_MS = 3000
+  // Outlives a killed function, and is renewed while sending or waiting
+  private readonly WALLET_LEASE_MS = 90 * 1000
+  private readonly FEE_BUMP_PERCENT = 15n // Nodes require at least 10% to accept a replacement
+
+  constructor(
+    private wallet: ethers.Wallet,
+    private chainId: number,
+    private maxFeePerGas: bigint,
+    private hooks: {
+      onSent?: (hash: string, method: string) => void
+      onReplaced?: (hash: string, method: string, replaces: string) => void
+    } = {}
+  ) {}
+
+  /**
+   * Send a transaction and wait for it to confirm, speeding it up while it is stuck.
+   * onSent is told each hash it goes out under, so callers can check on it after a restart.
+   */
+  async send(
+    method: string,
+    request: ethers.TransactionRequest,
+    fees: FeeSettings,
+    confirmations: number,
+    onSent?: (hash: string) => Promise<void>
+  ): Promise<ethers.TransactionReceipt> {
+    const tracked = await this.enqueue(() => this.broadcast(method, request, fees, onSent))
+    return this.waitForConfirmation(tracked, confirmations)
+  }
+
+  /**
+   * Forget the local nonce so the next send reads it from the chain
+   */
+  resync(): void {
+    this.nextNonce = null
+  }
+
+  /**
+   * Give up the wallet lease so the next run can send straight away. Kept while
+   * a transaction is still pending, so no other process cancels or reuses its nonce.
+   */
+  async releaseLease(): Promise<void> {
+    if (this.leaseUntil === 0 || this.inFlight.size > 0) {
+      return
+    }
+
+    this.leaseUntil = 0
+    const { error } = await supabaseAdmin.rpc('release_wallet_lease', {
+      p_chain_id: this.chainId,
+      p_wallet_address: this.wallet.address.toLowerCase(),
+      p_holder: this.leaseHolder
+    })
+
+    if (error) {
+      console.error(`Error releasing wallet lease on chain ${this.chainId}:`, error.message)
+    }
+  }
+
+  getInFlight(): { nonce: number; method: string; hashes: string[]; sentAt: number }[] {
+    return Array.from(this.inFlight.values()).map(({ nonce, method, hashes, sentAt }) => ({
+      nonce,
+      method,
+      hashes: [...hashes],
+      sentAt
+    }))
+  }
+
+  /**
+   * Run sends one at a time; later sends wait only for broadcast, not confirmation
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.sendQueue.then(task)
+    this.sendQueue = result.catch(() => undefined)
+    return result
+  }
+
+  /**
+   * Assign the next nonce and broadcast, resyncing once if the chain disagrees
+   */
+  private async broadcast(
+    method: string,
+    request: ethers.TransactionRequest,
+    fees: FeeSettings,
+    onSent?: (hash: string) => Promise<void>,
+    retried = false
+  ): Promise<TrackedTransaction> {
+    await this.holdLease()
+
+    if (this.nextNonce === null) {
+      await this.recoverNonce()
+    }
+
+    const nonce = this.nextNonce!
+
+    try {
+      const tx = await this.wallet.sendTransaction({ ...request, ...fees, nonce })
+      this.nextNonce = nonce + 1
+
+      const tracked: TrackedTransaction = {
+        nonce,
+        method,
+        request,
+        hashes: [tx.hash],
+        sentAt: Date.now(),
+        onSent,
+        ...fees
+      }
+      this.inFlight.set(nonce, tracked)
+      this.hooks.onSent?.(tx.hash, method)
+      await this.reportSent(tracked, tx.hash)
+
+      return tracked
+    } catch (error: any) {
+      if (!retried && isNonceError(error)) {
+        console.warn(`Nonce ${nonce} rejected for ${method}, resyncing from chain`)
+        this.resync()
+        return this.broadcast(method, request, fees, onSent, true)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Take or renew the wallet lease, throwing WalletBusyError while another process
+   * holds it. Another holder may have sent since this process last held it, so
+   * taking it afresh means reading the nonce from the chain again.
+   */
+  private async holdLease(): Promise<void> {
+    const now = Date.now()
+    if (this.leaseUntil - now > this.WALLET_LEASE_MS / 2) {
+      return
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('acquire_wallet_lease', {
+      p_chain_id: this.chainId,
+      p_wallet_address: this.wallet.address.toLowerCase(),
+      p_holder: this.leaseHolder,
+      p_lease_seconds: this.WALLET_LEASE_MS / 1000
+    })
+
+    if (error) {
+      throw new Error(`Error taking wallet lease on chain ${this.chainId}: ${error.message}`)
+    }
+    if (!data) {
+      this.leaseUntil = 0
+      throw new WalletBusyError(this.chainId)
+    }
+
+    if (this.leaseUntil <= now) {
+      this.resync()
+    }
+    this.leaseUntil = now + this.WALLET_LEASE_MS
+  }
+
+  /**
+   * Read the next nonce from the chain. Only the lease holder sends, so pending
+   * transactions this process isn't tracking were left by a holder that died;
+   * they are given time to mine, then cancelled so their nonces don't block us.
+   */
+  private async recoverNonce(): Promise<void> {
+    const provider = this.wallet.provider!
+    const address = this.wallet.address
+
+    let confirmed = await provider.getTransactionCount(address, 'latest')
+    const pending = await provider.getTransactionCount(address, 'pending')
+
+    // Nonces this process is already tracking aren't orphans
+    const orphaned = Array.from({ length: pending - confirmed }, (_, i) => confirmed + i)
+      .filter(nonce => !this.inFlight.has(nonce))
+
+    if (orphaned.length > 0) {
+      console.warn(`Found ${orphaned.length} pending transaction(s) from a previous run, waiting for them to mine`)
+
+      const deadline = Date.now() + this.STUCK_AFTER_MS
+      while (confirmed < pending && Date.now() < deadline) {
+        await delay(this.POLL_INTERVAL_MS)
+        confirmed = await provider.getTransactionCount(address, 'latest')
+      }
+
+      for (const nonce of orphaned.filter(nonce => nonce >= confirmed)) {
+        await this.cancelNonce(nonce)
+      }
+    }
+
+    this.nextNonce = pending
+    console.log(`Transaction manager synced at nonce ${pending}`)
+  }
+
+  /**
+   * Replace whatever is pending at a nonce with an empty self-transfer. The job that
+   * sent the original retries, so cancelling is safer than letting it land later.
+   * When replacing a tracked transaction the cancel outbids it, even past the fee cap:
+   * a 21000-gas transfer costs little next to minting an edition twice.
+   */
+  private async cancelNonce(nonce: number, replacing?: TrackedTransaction): Promise<void> {
+    const feeData = await this.wallet.provider!.getFeeData()
+    const bump = (value: bigint) => value * (100n + this.FEE_BUMP_PERCENT) / 100n
+
+    let priority = (feeData.maxPriorityFeePerGas || ethers.parseUnits('1', 'gwei')) * 2n
+    let maxFee = (feeData.maxFeePerGas || ethers.parseUnits('10', 'gwei')) * 2n + priority
+    if (maxFee > this.maxFeePerGas) {
+      maxFee = this.maxFeePerGas
+    }
+
+    if (replacing) {
+      if (bump(replacing.maxPriorityFeePerGas) > priority) {
+        priority = bump(replacing.maxPriorityFeePerGas)
+      }
+      if (bump(replacing.maxFeePerGas) > maxFee) {
+        maxFee = bump(replacing.maxFeePerGas)
+      }
+    }
+
+    try {
+      const tx = await this.wallet.sendTransaction({
+        to: this.wallet.address,
+        value: 0,
+        nonce,
+        gasLimit: 21000,
+        maxPriorityFeePerGas: priority > maxFee ? maxFee : priority,
+        maxFeePerGas: maxFee
+      })
+      console.warn(`Cancelling stuck nonce ${nonce} with ${tx.hash}`)
+    } catch (error: any) {
+      // Mined in the meantime; nothing left to cancel
+      if (isNonceError(error)) {
+        return
+      }
+      console.error(`Failed to cancel stuck nonce ${nonce}:`, error.message)
+    }
+  }
+
+  /**
+   * Poll until any version of the transaction has enough confirmations,
+   * re-sending with higher fees each time it sits unmined too long. A transaction
+   * still unmined at the timeout is cancelled, so a retry can't land next to it;
+   * only once its nonce is used up does this say whether it went through.
+   */
+  private async waitForConfirmation(
+    tracked: TrackedTransaction,
+    confirmations: number
+  ): Promise<ethers.TransactionReceipt> {
+    const provider = this.wallet.provider!
+    let deadline = Date.now() + this.CONFIRMATION_TIMEOUT_MS
+    let cancelling = false
+    let stillPending = false
+
+    try {
+      for (;;) {
+        // Losing the lease mid-wait means another process may now cancel this nonce
+        await this.holdLease()
+        const receipt = await this.findReceipt(tracked)
+
+        if (receipt) {
+          if (receipt.status === 0) {
+            throw new TransactionRevertedError(receipt.hash)
+          }
+          if (await receipt.confirmations() >= confirmations) {
+            return receipt
+          }
+        } else {
+          // The nonce was used but by none of our hashes: cancelled, or replaced from elsewhere
+          const confirmedNonce = await provider.getTransactionCount(this.wallet.address, 'latest')
+          if (confirmedNonce > tracked.nonce && !(await this.findReceipt(tracked))) {
+            throw cancelling
+              ? new Error(`Transaction ${tracked.hashes[0]} timed out and was cancelled`)
+              : new Error(`Nonce ${tracked.nonce} was consumed by another transaction`)
+          }
+
+          if (Date.now() >= deadline) {
+            if (cancelling) {
+              // Neither it nor the cancel has mined; keep its nonce tracked so it isn't reused
+              stillPending = true
+              throw new Error(`Transaction ${tracked.hashes[0]} and its cancellation still pending at nonce ${tracked.nonce}`)
+            }
+
+            console.warn(`${tracked.method} at nonce ${tracked.nonce} not confirmed after ${this.CONFIRMATION_TIMEOUT_MS / 1000}s, cancelling`)
+            await this.cancelNonce(tracked.nonce, tracked)
+            cancelling = true
+            deadline = Date.now() + this.CANCEL_TIMEOUT_MS
+          } else if (!cancelling && Date.now() - tracked.sentAt > this.STUCK_AFTER_MS) {
+            await this.speedUp(tracked)
+          }
+        }
+
+        await delay(this.POLL_INTERVAL_MS)
+      }
+    } finally {
+      if (!stillPending) {
+        this.inFlight.delete(tracked.nonce)
+      }
+    }
+  }
+
+  /**
+   * Tell the sender about a hash; the send has happened, so failing to record it only logs
+   */
+  private async reportSent(tracked: TrackedTransaction, hash: string): Promise<void> {
+    try {
+      await tracked.onSent?.(hash)
+    } catch (error: any) {
+      console.error(`Error recording ${tracked.method} transaction ${hash}:`, error.message)
+    }
+  }
+
+  private async findReceipt(tracked: TrackedTransaction): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of tracked.hashes) {
+      const receipt = await this.wallet.provider!.getTransactionReceipt(hash)
+      if (receipt) {
+        return receipt
+      }
+    }
+    return null
+  }
+
+  /**
+   * Re-send at the same nonce with bumped fees, never above the configured cap
+   */
+  private async speedUp(tracked: TrackedTransaction): Promise<void> {
+    const feeData = await this.wallet.provider!.getFeeData()
+    const bump = (value: bigint) => value * (100n + this.FEE_BUMP_PERCENT) / 100n
+    const max = (a: bigint, b: bigint | null) => (b !== null && b > a ? b : a)
+
+    const maxPriorityFeePerGas = max(bump(tracked.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas)
+    let maxFeePerGas = max(bump(tracked.maxFeePerGas), feeData.maxFeePerGas)
+
+    if (tracked.maxFeePerGas >= this.maxFeePerGas) {
+      // Already at the cap; keep waiting rather than overpaying
+      tracked.sentAt = Date.now()
+      return
+    }
+    if (maxFeePerGas > this.maxFeePerGas) {
+      maxFeePerGas = this.maxFeePerGas
+    }
+
+    try {
+      const tx = await this.wallet.sendTransaction({
+        ...tracked.request,
+        nonce: tracked.nonce,
+        maxFeePerGas,
+        maxPriorityFeePerGas: maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas
+      })
+
+      console.warn(`Sped up ${tracked.method} at nonce ${tracked.nonce}: ${tx.hash}`)
+      this.hooks.onReplaced?.(tx.hash, tracked.method, tracked.hashes[tracked.hashes.length - 1])
+      tracked.hashes.push(tx.hash)
+      await this.reportSent(tracked, tx.hash)
+    } catch (error: any) {
+      // A version already mined; the next poll will find its receipt
+      if (isNonceError(error)) {
+        return
+      }
+      // Underpriced replacements still raise the floor for the next attempt
+      console.warn(`Speed-up of nonce ${tracked.nonce} failed:`, error.shortMessage || error.message)
+    }
+
+    tracked.maxFeePerGas = maxFeePerGas
+    tracked.maxPriorityFeePerGas = maxPriorityFeePerGas
+    tracked.sentAt = Date.now()
+  }
+}
+
+class WalletBusyError extends Error {
+  constructor(chainId: number) {
+    super(`Hot wallet on chain ${chainId} is in use by another process`)
+    this.name = 'WalletBusyError'
+  }
+}
+
+class TransactionRevertedError extends Error {
+  constructor(public hash: string) {
+    super(`Transaction ${hash} reverted`)
+    this.name = 'TransactionRevertedError'
+  }
+}
+
+/**
+ * Whether a send failed in simulation or reverted on-chain, so nothing was minted
+ */
+function isRevert(error: any): boolean {
+  return error instanceof TransactionRevertedError || error?.code === 'CALL_EXCEPTION'
+}
+
+function isNonceError(error: any): boolean {
+  return error?.code === 'NONCE_EXPIRED' ||
+    /nonce too low|nonce has already been used/i.test(error?.message || '')
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
 /**
  * Transaction monitoring helper
  */
@@ -443,12 +1180,24 @@ class TransactionMonitor {
   }
 }
 
-// Export a singleton instance
-let contractService: ContractService | null = null
+// One instance per chain, so each keeps its own nonces and mint batches
+const contractServices: Map<number, ContractService> = new Map()
 
-export function getContractService(): ContractService {
-  if (!contractService) {
-    contractService = new ContractService()
+/**
+ * Contract service for a chain, defaulting to the chain new artworks are created on
+ */
+export function getContractService(chainId: number = getDefaultChainId()): ContractService {
+  let service = contractServices.get(chainId)
+  if (!service) {
+    service = new ContractService(getNetwork(chainId))
+    contractServices.set(chainId, service)
   }
-  return contractService
+  return service
+}
+
+/**
+ * Release the wallet lease on every chain this process has sent on
+ */
+export async function releaseWalletLeases(): Promise<void> {
+  await Promise.all(Array.from(contractServices.values()).map(service => service.releaseWalletLease()))
 }
\ No newline at end of file
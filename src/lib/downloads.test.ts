@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createResumeKey, isPartialRange, parseResumeKey, resumeEtag } from '@/lib/downloads'
+
+// Only pure helpers are tested here; keep the Supabase clients from being created
+vi.mock('@/lib/supabase', () => ({ supabaseAdmin: {} }))
+
+describe('resume keys', () => {
+  it('round-trip through the ETag', () => {
+    const key = createResumeKey()
+    expect(key).toMatch(/^[0-9a-f]{32}$/)
+    expect(parseResumeKey(resumeEtag(key))).toBe(key)
+    expect(parseResumeKey(` ${resumeEtag(key)} `)).toBe(key)
+  })
+
+  it('are fresh each time', () => {
+    expect(createResumeKey()).not.toBe(createResumeKey())
+  })
+
+  it.each([
+    null,
+    '',
+    'Wed, 21 Oct 2026 07:28:00 GMT',
+    `W/"${'a'.repeat(32)}"`,
+    `"${'a'.repeat(31)}"`,
+    `"${'A'.repeat(32)}"`,
+    'a'.repeat(32)
+  ])('are not read from If-Range %j', ifRange => {
+    expect(parseResumeKey(ifRange)).toBeNull()
+  })
+})
+
+describe('isPartialRange', () => {
+  it('treats a missing range or one from the start as a whole download', () => {
+    expect(isPartialRange(null)).toBe(false)
+    expect(isPartialRange('')).toBe(false)
+    expect(isPartialRange('bytes=0-')).toBe(false)
+  })
+
+  it('treats any other range as partial', () => {
+    expect(isPartialRange('bytes=1024-')).toBe(true)
+    expect(isPartialRange('bytes=0-1023')).toBe(true)
+    expect(isPartialRange('bytes=-500')).toBe(true)
+  })
+})
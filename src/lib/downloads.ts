@@ -0,0 +1,128 @@
+// Download accounting: the record_download database function checks and uses up a
+// download atomically and logs it in download_events; the route reports bytes served.
+
+import crypto from 'crypto'
+import { NextRequest } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// What an artist sees of their buyers' downloads; IP hashes and user agents are for support
+export const ARTIST_DOWNLOAD_EVENT_COLUMNS = 'id, variant, counted, range_header, bytes_served, completed, finished_at, created_at'
+
+const RESUME_WINDOW_SECONDS = 24 * 60 * 60 // How long an interrupted download can be picked up for free
+
+/**
+ * Fresh key for a counted download, sent to the client as the response's ETag
+ */
+export function createResumeKey(): string {
+  return crypto.randomBytes(16).toString('hex')
+}
+
+export function resumeEtag(resumeKey: string): string {
+  return `"${resumeKey}"`
+}
+
+/**
+ * The resume key a client sends back in If-Range to continue a download, if any.
+ * Only strong ETags are ours; dates and weak tags can't resume.
+ */
+export function parseResumeKey(ifRange: string | null): string | null {
+  const match = ifRange?.trim().match(/^"([0-9a-f]{32})"$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Whether a Range header asks for anything but the whole file from the start
+ */
+export function isPartialRange(range: string | null): boolean {
+  return !!range && !/^bytes=0-$/.test(range.trim())
+}
+
+/**
+ * Keyed hash of the client IP, so repeat visitors can be matched without storing addresses
+ */
+function hashClientIp(request: NextRequest): string | null {
+  const ip = request.ip || request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+  const secret = process.env.SESSION_SECRET
+  if (!ip || !secret) {
+    return null
+  }
+  return crypto.createHmac('sha256', secret).update(ip).digest('hex')
+}
+
+/**
+ * Use up a download (or, for a resumed range, check resumeKey names a recent counted
+ * download of the same variant) and log the request. Returns the event ID, or null if
+ * the token has no downloads left, is no longer valid, or the resume key doesn't match.
+ */
+export async function recordDownload(
+  request: NextRequest,
+  { tokenId, variant, counted, resumeKey, range }: {
+    tokenId: number
+    variant: string
+    counted: boolean
+    resumeKey: string | null
+    range: string | null
+  }
+): Promise<number | null> {
+  const { data: eventId, error } = await supabaseAdmin.rpc('record_download', {
+    p_token_id: tokenId,
+    p_counted: counted,
+    p_variant: variant,
+    p_resume_key: resumeKey,
+    p_resume_window_seconds: RESUME_WINDOW_SECONDS,
+    p_ip_hash: hashClientIp(request),
+    p_user_agent: request.headers.get('user-agent')?.slice(0, 1000) || null,
+    p_range_header: range?.slice(0, 100) || null
+  })
+
+  if (error) {
+    throw new Error(`Error recording download for token ${tokenId}: ${error.message}`)
+  }
+
+  return eventId
+}
+
+/**
+ * Pass a response body through, recording how many bytes reached the client once it ends
+ */
+export function trackBytesServed(eventId: number, body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  let bytesServed = 0
+
+  const finish = async (completed: boolean) => {
+    const { error } = await supabaseAdmin
+      .from('download_events')
+      .update({
+        bytes_served: bytesServed,
+        completed,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', eventId)
+
+    if (error) {
+      console.error(`Error finishing download event ${eventId}:`, error)
+    }
+  }
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+          await finish(true)
+          return
+        }
+        bytesServed += value.byteLength
+        controller.enqueue(value)
+      } catch (error) {
+        controller.error(error)
+        await finish(false)
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason)
+      await finish(false)
+    }
+  })
+}
@@ -16,6 +16,7 @@ interface SendDownloadEmailParams {
   artistName: string
   downloadToken: string
   purchaseAmount: number
+  claimToken?: string
 }
 
 export async function sendDownloadEmail({
@@ -23,9 +24,11 @@ export async function sendDownloadEmail({
   artworkTitle,
   artistName,
   downloadToken,
-  purchaseAmount
+  purchaseAmount,
+  claimToken
 }: SendDownloadEmailParams) {
-  const downloadUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/download/${downloadToken}`
+  const downloadUrl = `${process.env.NEXT_PUBLIC_APP_URL}/download/${downloadToken}`
+  const claimUrl = claimToken ? `${process.env.NEXT_PUBLIC_APP_URL}/claim/${claimToken}` : null
   
   const htmlContent = `
     <!DOCTYPE html>
@@ -54,7 +57,7 @@ export async function sendDownloadEmail({
             
             <p>You've successfully purchased "<strong>${artworkTitle}</strong>" by ${artistName} for $${purchaseAmount}.</p>
             
-            <p>Click the button below to download your high-resolution wallpaper:</p>
+            <p>Click the button below to download your high-resolution wallpaper, in its original size or cropped for your phone, tablet or desktop:</p>
             
             <p style="text-align: center;">
               <a href="${downloadUrl}" class="download-button">Download Your Wallpaper</a>
@@ -62,10 +65,19 @@ export async function sendDownloadEmail({
             
             <p><strong>Important:</strong></p>
             <ul>
-              <li>This download link will expire in 7 days</li>
-              <li>You can download the file up to 3 times</li>
-              <li>If you provided a wallet address, your NFT will be minted within 24 hours</li>
+              <li>This download link will expire in 7 days. You can get a new one at ${process.env.NEXT_PUBLIC_APP_URL}/orders</li>
+              <li>You can download up to 3 times; each file, or the zip of all sizes, counts once</li>
+              ${claimUrl
+                ? '<li>Your NFT is waiting to be claimed (see below)</li>'
+                : '<li>If you provided a wallet address, your NFT will be minted within 24 hours</li>'}
             </ul>
+            ${claimUrl ? `
+            <p>Your NFT hasn't been minted yet. Connect a wallet to claim it at any time:</p>
+
+            <p style="text-align: center;">
+              <a href="${claimUrl}" class="download-button">Claim Your NFT</a>
+            </p>
+            ` : ''}
             
             <p>If you have any questions or issues, please contact our support team.</p>
             
@@ -95,4 +107,166 @@ export async function sendDownloadEmail({
     console.error('Error sending email:', error)
     return false
   }
+}
+
+export type PurchaseNotice = 'refunded' | 'dispute_opened' | 'dispute_won' | 'dispute_lost'
+
+const PURCHASE_NOTICES: Record<PurchaseNotice, { subject: string; heading: string; body: string }> = {
+  refunded: {
+    subject: 'Your purchase has been refunded',
+    heading: 'Your purchase has been refunded',
+    body: 'The payment has been refunded to your original payment method. Download links for this artwork no longer work.'
+  },
+  dispute_opened: {
+    subject: 'Your purchase is under dispute',
+    heading: 'A payment dispute was opened',
+    body: 'Your card issuer opened a dispute for this payment. Download links are paused until the dispute is resolved.'
+  },
+  dispute_won: {
+    subject: 'Your download access has been restored',
+    heading: 'The payment dispute was resolved',
+    body: 'The dispute for this payment was closed in favour of the sale. Your original download link works again.'
+  },
+  dispute_lost: {
+    subject: 'Your purchase has been reversed',
+    heading: 'The payment dispute was resolved',
+    body: 'The dispute for this payment was closed and the funds were returned to you. Download links for this artwork no longer work.'
+  }
+}
+
+interface SendPurchaseNoticeEmailParams {
+  buyerEmail: string
+  artworkTitle: string
+  notice: PurchaseNotice
+}
+
+export async function sendPurchaseNoticeEmail({
+  buyerEmail,
+  artworkTitle,
+  notice
+}: SendPurchaseNoticeEmailParams) {
+  const { subject, heading, body } = PURCHASE_NOTICES[notice]
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${subject} - ImNotArt</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px; margin-bottom: 20px; }
+          .content { padding: 20px 0; }
+          .footer { background: #f8f9fa; padding: 15px; text-align: center; border-radius: 8px; margin-top: 20px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="margin: 0; color: #007bff;">ImNotArt</h1>
+          </div>
+          
+          <div class="content">
+            <h2>${heading}</h2>
+            
+            <p>This is about your purchase of "<strong>${artworkTitle}</strong>".</p>
+            
+            <p>${body}</p>
+            
+            <p>If you have any questions, please contact our support team.</p>
+          </div>
+          
+          <div class="footer">
+            <p>This email was sent because you purchased an NFT wallpaper from ImNotArt.</p>
+            <p>© 2025 ImNotArt. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+
+  try {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to: buyerEmail,
+      subject: `${subject}: ${artworkTitle}`,
+      html: htmlContent,
+    })
+
+    console.log(`Purchase notice (${notice}) sent to ${buyerEmail}`)
+    return true
+  } catch (error) {
+    console.error('Error sending email:', error)
+    return false
+  }
+}
+
+interface SendOrderLookupEmailParams {
+  buyerEmail: string
+  lookupToken: string
+}
+
+export async function sendOrderLookupEmail({
+  buyerEmail,
+  lookupToken
+}: SendOrderLookupEmailParams) {
+  const lookupUrl = `${process.env.NEXT_PUBLIC_APP_URL}/orders/${lookupToken}`
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Your orders - ImNotArt</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px; margin-bottom: 20px; }
+          .content { padding: 20px 0; }
+          .download-button { display: inline-block; background: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { background: #f8f9fa; padding: 15px; text-align: center; border-radius: 8px; margin-top: 20px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="margin: 0; color: #007bff;">ImNotArt</h1>
+          </div>
+          
+          <div class="content">
+            <h2>Your orders</h2>
+            
+            <p>Someone asked for the orders placed with this email address. Click the button below to see them and get new download links:</p>
+            
+            <p style="text-align: center;">
+              <a href="${lookupUrl}" class="download-button">View Your Orders</a>
+            </p>
+            
+            <p>This link expires in 1 hour. If you didn't ask for it, you can ignore this email.</p>
+          </div>
+          
+          <div class="footer">
+            <p>This email was sent because your email address was entered on the ImNotArt order lookup page.</p>
+            <p>© 2025 ImNotArt. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+
+  try {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to: buyerEmail,
+      subject: 'Your ImNotArt orders',
+      html: htmlContent,
+    })
+
+    console.log(`Order lookup email sent to ${buyerEmail}`)
+    return true
+  } catch (error) {
+    console.error('Error sending email:', error)
+    return false
+  }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+// Public previews of uploaded artwork: downscaled and watermarked so the free image
+// isn't the product. Originals are never served from here.
+
+import sharp from 'sharp'
+
+export const PREVIEW_MAX_SIZE = 1200 // Longest edge of the artwork page image
+export const THUMBNAIL_MAX_SIZE = 600 // Longest edge of grid cards, 2x a 300px card
+
+const WATERMARK_TEXT = 'ImNotArt'
+const PREVIEW_QUALITY = 80
+
+export interface ArtworkPreviews {
+  preview: File
+  thumbnail: File
+}
+
+/**
+ * Tiled diagonal text covering the whole image, so cropping can't remove it
+ */
+function watermarkSvg(width: number, height: number): Buffer {
+  const fontSize = Math.max(14, Math.round(Math.max(width, height) / 24))
+  const tileWidth = fontSize * 8
+  const tileHeight = fontSize * 4
+
+  return Buffer.from(`
+    <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <defs>
+        <pattern id="watermark" width="${tileWidth}" height="${tileHeight}" patternUnits="userSpaceOnUse" patternTransform="rotate(-30)">
+          <text x="0" y="${fontSize * 2}" font-family="sans-serif" font-size="${fontSize}" font-weight="bold"
+            fill="#ffffff" fill-opacity="0.4" stroke="#000000" stroke-opacity="0.2" stroke-width="1">${WATERMARK_TEXT}</text>
+        </pattern>
+      </defs>
+      <rect width="100%" height="100%" fill="url(#watermark)" />
+    </svg>
+  `)
+}
+
+/**
+ * Downscale to fit maxSize, watermark and encode as JPEG
+ */
+async function renderPreview(input: Buffer, maxSize: number): Promise<Buffer> {
+  // Animated images keep their first frame; EXIF orientation is applied before resizing
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .toBuffer({ resolveWithObject: true })
+
+  return sharp(data)
+    .composite([{ input: watermarkSvg(info.width, info.height) }])
+    .jpeg({ quality: PREVIEW_QUALITY, mozjpeg: true })
+    .toBuffer()
+}
+
+/**
+ * Build the watermarked preview and grid thumbnail for an uploaded original
+ */
+export async function createArtworkPreviews(file: File): Promise<ArtworkPreviews> {
+  const input = Buffer.from(await file.arrayBuffer())
+
+  const [preview, thumbnail] = await Promise.all([
+    renderPreview(input, PREVIEW_MAX_SIZE),
+    renderPreview(input, THUMBNAIL_MAX_SIZE)
+  ])
+
+  const baseName = file.name.replace(/\.[^.]*$/, '') || 'artwork'
+
+  return {
+    preview: new File([new Uint8Array(preview)], `${baseName}-preview.jpg`, { type: 'image/jpeg' }),
+    thumbnail: new File([new Uint8Array(thumbnail)], `${baseName}-thumbnail.jpg`, { type: 'image/jpeg' })
+  }
+}
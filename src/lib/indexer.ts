@@ -0,0 +1,491 @@
+import { supabaseAdmin } from '@/lib/supabase'
+import { getContractService, type ContractEvent } from '@/lib/contract'
+import { getDeployBlock, getDeployedNetworks, type NetworkConfig } from '@/lib/networks'
+
+const MAX_BLOCK_RANGE = 2000 // Public RPC nodes cap the range of a single eth_getLogs
+const DEEP_REORG_REWIND_BLOCKS = 100
+
+export type DriftKind =
+  | 'token_id_unrecorded'
+  | 'token_id_mismatch'
+  | 'token_not_on_chain'
+  | 'oversupplied'
+  | 'mint_unrecorded'
+  | 'mint_not_on_chain'
+
+export interface Drift {
+  kind: DriftKind
+  chainId: number
+  artworkId?: number
+  tokenId?: number
+  wallet?: string
+  detail: string
+  fixed: boolean
+}
+
+export interface NetworkIndexSummary {
+  chainId: number
+  fromBlock: number
+  toBlock: number
+  checkpoint: number
+  events: number
+  reorgedEvents: number
+  deepReorg: boolean
+}
+
+export interface IndexerRunSummary {
+  networks: NetworkIndexSummary[]
+  drift: Drift[]
+}
+
+interface Checkpoint {
+  block_number: number
+  block_hash: string | null
+}
+
+type ChainEventRow = {
+  chain_id: number
+  block_number: number
+  block_hash: string
+  tx_hash: string
+  log_index: number
+  batch_index: number
+  event_name: string
+  token_id: number | null
+  from_address: string | null
+  to_address: string | null
+  amount: string | null
+  args: Record<string, unknown>
+  confirmed: boolean
+}
+
+/**
+ * Last confirmed block read on a chain, or the block before deployment on the first run
+ */
+async function loadCheckpoint(network: NetworkConfig): Promise<Checkpoint> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_checkpoints')
+    .select('block_number, block_hash')
+    .eq('chain_id', network.chainId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Error loading indexer checkpoint: ${error.message}`)
+  }
+
+  if (data) {
+    return { block_number: Number(data.block_number), block_hash: data.block_hash }
+  }
+
+  return { block_number: getDeployBlock(network) - 1, block_hash: null }
+}
+
+async function saveCheckpoint(chainId: number, checkpoint: Checkpoint): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('chain_checkpoints')
+    .upsert({
+      chain_id: chainId,
+      ...checkpoint,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'chain_id' })
+
+  if (error) {
+    throw new Error(`Error saving indexer checkpoint: ${error.message}`)
+  }
+}
+
+/**
+ * Event arguments as JSON, with uint256 values as decimal strings
+ */
+function serializeArgs(event: ContractEvent): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(
+    event.args.toObject(),
+    (_, value) => typeof value === 'bigint' ? value.toString() : value
+  ))
+}
+
+/**
+ * Flatten a decoded event into table rows; a TransferBatch becomes one row per token
+ */
+function toRows(chainId: number, event: ContractEvent, confirmed: boolean): ChainEventRow[] {
+  const { args } = event
+  const base: ChainEventRow = {
+    chain_id: chainId,
+    block_number: event.blockNumber,
+    block_hash: event.blockHash,
+    tx_hash: event.txHash,
+    log_index: event.logIndex,
+    batch_index: 0,
+    event_name: event.name,
+    token_id: null,
+    from_address: null,
+    to_address: null,
+    amount: null,
+    args: serializeArgs(event),
+    confirmed
+  }
+
+  switch (event.name) {
+    case 'TokenCreated':
+      return [{ ...base, token_id: Number(args.tokenId) }]
+    case 'TokenMinted':
+      return [{
+        ...base,
+        token_id: Number(args.tokenId),
+        to_address: args.buyer.toLowerCase(),
+        amount: args.amount.toString()
+      }]
+    case 'VoucherRedeemed':
+      return [{
+        ...base,
+        token_id: Number(args.tokenId),
+        to_address: args.recipient.toLowerCase(),
+        amount: args.amount.toString()
+      }]
+    case 'TransferSingle':
+      return [{
+        ...base,
+        token_id: Number(args.id),
+        from_address: args.from.toLowerCase(),
+        to_address: args.to.toLowerCase(),
+        amount: args.value.toString()
+      }]
+    case 'TransferBatch': {
+      // Read ids/values by position: `values` collides with Array.prototype.values on a Result
+      const ids: bigint[] = args[3]
+      const amounts: bigint[] = args[4]
+      return ids.map((id, i) => ({
+        ...base,
+        batch_index: i,
+        token_id: Number(id),
+        from_address: args.from.toLowerCase(),
+        to_address: args.to.toLowerCase(),
+        amount: amounts[i].toString()
+      }))
+    }
+    default:
+      return [base]
+  }
+}
+
+/**
+ * Replace a chain's stored events from `fromBlock` (through `toBlock`, or onwards when null)
+ * with a fresh read, in one transaction. Returns how many stored events are gone from the
+ * canonical chain.
+ */
+async function replaceEvents(
+  chainId: number,
+  fromBlock: number,
+  toBlock: number | null,
+  rows: ChainEventRow[]
+): Promise<number> {
+  const { data: reorged, error } = await supabaseAdmin.rpc('replace_chain_events', {
+    p_chain_id: chainId,
+    p_from_block: fromBlock,
+    p_to_block: toBlock,
+    p_events: rows
+  })
+
+  if (error) {
+    throw new Error(`Error storing indexed events: ${error.message}`)
+  }
+
+  return reorged || 0
+}
+
+/**
+ * Index every chain the contract is deployed on, then reconcile the database
+ */
+export async function indexChain(timeBudgetMs: number): Promise<IndexerRunSummary> {
+  const deadline = Date.now() + timeBudgetMs
+  const networks: NetworkIndexSummary[] = []
+
+  for (const network of getDeployedNetworks()) {
+    networks.push(await indexNetwork(network, deadline))
+  }
+
+  const drift = await reconcileChainState()
+
+  return { networks, drift }
+}
+
+/**
+ * Walk a chain's contract events from the checkpoint to the head, until the deadline.
+ * Blocks within the network's confirmations of the head are stored unconfirmed and re-read
+ * on the next run, so events a reorg removes are dropped. The checkpoint only covers
+ * confirmed blocks.
+ */
+async function indexNetwork(network: NetworkConfig, deadline: number): Promise<NetworkIndexSummary> {
+  const { chainId } = network
+  const service = getContractService(chainId)
+  let checkpoint = await loadCheckpoint(network)
+  let deepReorg = false
+
+  // A confirmed block that changed means a reorg deeper than the window; step back and re-read
+  if (checkpoint.block_hash && await service.getBlockHash(checkpoint.block_number) !== checkpoint.block_hash) {
+    const rewound = Math.max(checkpoint.block_number - DEEP_REORG_REWIND_BLOCKS, 0)
+    console.error(`Indexer checkpoint block ${checkpoint.block_number} on ${network.name} was reorged out; rewinding to ${rewound}`)
+
+    deepReorg = true
+    checkpoint = { block_number: rewound, block_hash: await service.getBlockHash(rewound) }
+    await saveCheckpoint(chainId, checkpoint)
+  }
+
+  const head = await service.getBlockNumber()
+  const safeHead = head - network.confirmations
+  const fromBlock = checkpoint.block_number + 1
+  let from = fromBlock
+  let events = 0
+  let reorgedEvents = 0
+
+  while (from <= head && Date.now() < deadline) {
+    const to = Math.min(from + MAX_BLOCK_RANGE - 1, head)
+    const rows = (await service.getContractEvents(from, to))
+      .flatMap(event => toRows(chainId, event, event.blockNumber <= safeHead))
+
+    // The last range also clears anything stored past the head, in case the chain got shorter
+    reorgedEvents += await replaceEvents(chainId, from, to === head ? null : to, rows)
+    events += rows.length
+
+    const confirmedTo = Math.min(to, safeHead)
+    if (confirmedTo > checkpoint.block_number) {
+      checkpoint = { block_number: confirmedTo, block_hash: await service.getBlockHash(confirmedTo) }
+      await saveCheckpoint(chainId, checkpoint)
+    }
+
+    from = to + 1
+  }
+
+  if (reorgedEvents > 0) {
+    console.warn(`Indexer dropped ${reorgedEvents} events from reorged blocks on ${network.name}`)
+  }
+
+  return {
+    chainId,
+    fromBlock,
+    toBlock: from - 1,
+    checkpoint: checkpoint.block_number,
+    events,
+    reorgedEvents,
+    deepReorg
+  }
+}
+
+/**
+ * Compare token IDs, supply and mint status with confirmed chain events. Drift the chain
+ * settles unambiguously (a token or mint that happened but wasn't saved) is fixed;
+ * the rest is reported for review.
+ */
+async function reconcileChainState(): Promise<Drift[]> {
+  const drift: Drift[] = []
+
+  await reconcileTokens(drift)
+  await reconcileSupply(drift)
+  await reconcileMints(drift)
+
+  for (const entry of drift) {
+    console.warn(`Chain drift (${entry.kind}${entry.fixed ? ', fixed' : ''}): ${entry.detail}`)
+  }
+
+  return drift
+}
+
+async function reconcileTokens(drift: Drift[]): Promise<void> {
+  const { data: rows, error } = await supabaseAdmin
+    .from('chain_token_drift')
+    .select('*')
+
+  if (error) {
+    throw new Error(`Error reading token drift: ${error.message}`)
+  }
+
+  for (const row of rows || []) {
+    const artworkId = row.artwork_id
+    const recorded = row.recorded_token_id === null ? null : Number(row.recorded_token_id)
+    const onChain = row.chain_token_id === null ? null : Number(row.chain_token_id)
+
+    if (recorded === null && onChain !== null && Number(row.chain_token_count) === 1) {
+      // Created on-chain but the ID was never saved, e.g. the job died after sending
+      const { data: updated } = await supabaseAdmin
+        .from('artworks')
+        .update({ token_id: onChain })
+        .eq('id', artworkId)
+        .is('token_id', null)
+        .select('id')
+        .maybeSingle()
+
+      drift.push({
+        kind: 'token_id_unrecorded',
+        chainId: row.chain_id,
+        artworkId,
+        tokenId: onChain,
+        detail: `Artwork ${artworkId} was created on-chain as token ${onChain} but had no token_id`,
+        fixed: !!updated
+      })
+    } else if (onChain === null) {
+      drift.push({
+        kind: 'token_not_on_chain',
+        chainId: row.chain_id,
+        artworkId,
+        tokenId: recorded ?? undefined,
+        detail: `Artwork ${artworkId} records token ${recorded}, which has no confirmed TokenCreated event`,
+        fixed: false
+      })
+    } else {
+      drift.push({
+        kind: 'token_id_mismatch',
+        chainId: row.chain_id,
+        artworkId,
+        tokenId: recorded ?? undefined,
+        detail: `Artwork ${artworkId} records token ${recorded ?? 'none'} but its metadata was created as ${row.chain_token_count} token(s), first ${onChain}`,
+        fixed: false
+      })
+    }
+  }
+}
+
+async function reconcileSupply(drift: Drift[]): Promise<void> {
+  const { data: rows, error } = await supabaseAdmin
+    .from('chain_supply_drift')
+    .select('*')
+
+  if (error) {
+    throw new Error(`Error reading supply drift: ${error.message}`)
+  }
+
+  for (const row of rows || []) {
+    drift.push({
+      kind: 'oversupplied',
+      chainId: row.chain_id,
+      artworkId: row.artwork_id,
+      tokenId: Number(row.token_id),
+      detail: `Artwork ${row.artwork_id} has ${row.chain_minted} editions minted on-chain but only ${row.current_editions} sold`,
+      fixed: false
+    })
+  }
+}
+
+async function reconcileMints(drift: Drift[]): Promise<void> {
+  const { data: rows, error } = await supabaseAdmin
+    .from('chain_mint_drift')
+    .select('*')
+
+  if (error) {
+    throw new Error(`Error reading mint drift: ${error.message}`)
+  }
+
+  for (const row of rows || []) {
+    const tokenId = Number(row.token_id)
+    const chainMinted = Number(row.chain_minted)
+    const recordedMinted = Number(row.recorded_minted)
+
+    if (chainMinted > recordedMinted) {
+      const missing = chainMinted - recordedMinted
+      const fixed = await recordUnrecordedMints(row.chain_id, tokenId, row.wallet, missing)
+
+      drift.push({
+        kind: 'mint_unrecorded',
+        chainId: row.chain_id,
+        tokenId,
+        wallet: row.wallet,
+        detail: `${chainMinted} of token ${tokenId} minted to ${row.wallet} on-chain but ${recordedMinted} recorded; marked ${fixed} purchase(s) minted`,
+        fixed: fixed === missing
+      })
+    } else {
+      drift.push({
+        kind: 'mint_not_on_chain',
+        chainId: row.chain_id,
+        tokenId,
+        wallet: row.wallet,
+        detail: `${recordedMinted} purchase(s) of token ${tokenId} for ${row.wallet} are marked minted but ${chainMinted} minted on-chain`,
+        fixed: false
+      })
+    }
+  }
+}
+
+/**
+ * Mark the oldest unminted purchases for a token and wallet as minted, pairing each
+ * with a mint transaction no purchase records yet. Returns how many were marked.
+ */
+async function recordUnrecordedMints(
+  chainId: number,
+  tokenId: number,
+  wallet: string,
+  missing: number
+): Promise<number> {
+  const { data: mints, error: mintsError } = await supabaseAdmin
+    .from('chain_events')
+    .select('tx_hash, amount')
+    .eq('event_name', 'TokenMinted')
+    .eq('confirmed', true)
+    .eq('chain_id', chainId)
+    .eq('token_id', tokenId)
+    .eq('to_address', wallet)
+    .order('block_number', { ascending: true })
+
+  if (mintsError) {
+    throw new Error(`Error reading mints of token ${tokenId}: ${mintsError.message}`)
+  }
+
+  const { data: purchases, error: purchasesError } = await supabaseAdmin
+    .from('purchases')
+    .select('id, payment_status, nft_minted, nft_tx_hash, artwork:artworks!inner(chain_id, token_id)')
+    .eq('artwork.chain_id', chainId)
+    .eq('artwork.token_id', tokenId)
+    .ilike('buyer_wallet_address', wallet)
+    .order('created_at', { ascending: true })
+
+  if (purchasesError) {
+    throw new Error(`Error reading purchases of token ${tokenId}: ${purchasesError.message}`)
+  }
+
+  // One batch transaction can mint several purchases, so count recorded hashes
+  const recordedCounts = new Map<string, number>()
+  for (const purchase of purchases || []) {
+    if (purchase.nft_minted && purchase.nft_tx_hash) {
+      recordedCounts.set(purchase.nft_tx_hash, (recordedCounts.get(purchase.nft_tx_hash) || 0) + 1)
+    }
+  }
+
+  const unrecordedTxHashes: string[] = []
+  for (const mint of mints || []) {
+    for (let i = 0; i < Number(mint.amount); i++) {
+      const recorded = recordedCounts.get(mint.tx_hash) || 0
+      if (recorded > 0) {
+        recordedCounts.set(mint.tx_hash, recorded - 1)
+      } else {
+        unrecordedTxHashes.push(mint.tx_hash)
+      }
+    }
+  }
+
+  // Refunded and disputed purchases are never minted, so a mint can't be theirs
+  const unminted = (purchases || [])
+    .filter(purchase => !purchase.nft_minted && purchase.payment_status === 'completed')
+    .slice(0, missing)
+  let fixed = 0
+
+  for (const [i, purchase] of unminted.entries()) {
+    const { data: updated } = await supabaseAdmin
+      .from('purchases')
+      .update({
+        nft_minted: true,
+        nft_token_id: tokenId,
+        nft_tx_hash: unrecordedTxHashes[i] || null,
+        nft_mint_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', purchase.id)
+      .eq('payment_status', 'completed')
+      .eq('nft_minted', false)
+      .select('id')
+      .maybeSingle()
+
+    if (updated) {
+      fixed++
+    }
+  }
+
+  return fixed
+}
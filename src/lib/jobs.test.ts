@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { backoffDelay } from '@/lib/jobs'
+
+// Only pure helpers are tested here; keep the Supabase clients from being created
+vi.mock('@/lib/supabase', () => ({ supabaseAdmin: {} }))
+
+describe('backoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('doubles from 30 seconds', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect([1, 2, 3, 4].map(backoffDelay)).toEqual([30_000, 60_000, 120_000, 240_000])
+  })
+
+  it('caps at an hour', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect(backoffDelay(20)).toBe(60 * 60 * 1000)
+  })
+
+  it('adds up to 10% jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999)
+    expect(backoffDelay(1)).toBe(30_000 + 2_997)
+  })
+})
@@ -0,0 +1,559 @@
+import crypto from 'crypto'
+import { supabaseAdmin } from '@/lib/supabase'
+import type { PurchaseNotice } from '@/lib/email'
+import type { WallpaperVariant } from '@/lib/wallpapers'
+
+export interface JobPayloads {
+  create_token: { artworkId: number }
+  create_wallpapers: { artworkId: number }
+  mint_nft: { purchaseId: number }
+  send_download_email: { purchaseId: number }
+  send_purchase_notice: { purchaseId: number; notice: PurchaseNotice }
+}
+
+export type JobType = keyof JobPayloads
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead'
+
+export type Job<T extends JobType = JobType> = {
+  id: number
+  type: T
+  payload: JobPayloads[T]
+  purchase_id?: number
+  dedupe_key: string
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_by?: string
+  locked_until?: string
+  last_error?: string
+  completed_at?: string
+  created_at: string
+  updated_at: string
+}
+
+type JobHandler<T extends JobType> = (payload: JobPayloads[T], job: Job<T>) => Promise<void>
+
+export interface JobRunSummary {
+  completed: number
+  retried: number
+  dead: number
+}
+
+const LEASE_SECONDS = 5 * 60
+const BATCH_SIZE = 20
+const BACKOFF_BASE_MS = 30 * 1000
+const BACKOFF_MAX_MS = 60 * 60 * 1000
+// Jobs that send from the hot wallet, and so may leave this run holding its lease
+const WALLET_JOB_TYPES: JobType[] = ['create_token', 'mint_nft']
+
+/**
+ * Thrown by handlers for failures that retrying can't fix; the job goes straight to dead
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+/**
+ * Key that makes a job unique: one per type and purchase (or artwork for artwork jobs)
+ */
+function dedupeKey<T extends JobType>(type: T, payload: JobPayloads[T]): string {
+  switch (type) {
+    case 'create_token':
+    case 'create_wallpapers':
+      return `${type}:${(payload as { artworkId: number }).artworkId}`
+    case 'send_purchase_notice': {
+      const { purchaseId, notice } = payload as JobPayloads['send_purchase_notice']
+      return `send_purchase_notice:${purchaseId}:${notice}`
+    }
+    default:
+      return `${type}:${(payload as { purchaseId: number }).purchaseId}`
+  }
+}
+
+/**
+ * Queue a job. Enqueueing the same job twice is a no-op.
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { runAt?: Date; maxAttempts?: number } = {}
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .upsert({
+      type,
+      payload,
+      purchase_id: 'purchaseId' in payload ? payload.purchaseId : null,
+      dedupe_key: dedupeKey(type, payload),
+      run_at: (options.runAt || new Date()).toISOString(),
+      ...(options.maxAttempts ? { max_attempts: options.maxAttempts } : {})
+    }, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+
+  if (error) {
+    throw new Error(`Error queuing ${type} job: ${error.message}`)
+  }
+}
+
+/**
+ * Queue a job again even if it already ran, such as a mint skipped while its purchase was
+ * under dispute. A pending or running copy is left as it is.
+ */
+export async function requeueJob<T extends JobType>(type: T, payload: JobPayloads[T]): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      last_error: null,
+      completed_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('dedupe_key', dedupeKey(type, payload))
+    .in('status', ['completed', 'dead'])
+
+  if (error) {
+    throw new Error(`Error requeuing ${type} job: ${error.message}`)
+  }
+
+  await enqueueJob(type, payload)
+}
+
+/**
+ * Delay before the next attempt: doubling from 30s, capped at an hour, with jitter
+ */
+export function backoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * Math.pow(2, attempts - 1), BACKOFF_MAX_MS)
+  return delay + Math.floor(Math.random() * delay * 0.1)
+}
+
+/**
+ * Lease up to `limit` due jobs to this worker
+ */
+async function claimJobs(workerId: string, limit: number): Promise<Job[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_jobs', {
+    p_worker: workerId,
+    p_limit: limit,
+    p_lease_seconds: LEASE_SECONDS
+  })
+
+  if (error) {
+    throw new Error(`Error claiming jobs: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Write a job's outcome, provided this worker still holds its lease
+ */
+async function finishJob(job: Job, workerId: string, updates: Partial<Job>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      ...updates,
+      locked_by: null,
+      locked_until: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    console.error(`Error updating job ${job.id}:`, error)
+  }
+}
+
+/**
+ * Run one claimed job and record whether it completed, will retry or is dead
+ */
+async function processJob(job: Job, workerId: string, summary: JobRunSummary): Promise<void> {
+  // Each expired lease counted as an attempt; don't run a job past its limit
+  if (job.attempts > job.max_attempts) {
+    summary.dead++
+    await finishJob(job, workerId, {
+      status: 'dead',
+      last_error: job.last_error || 'Lease expired on every attempt'
+    })
+    return
+  }
+
+  try {
+    const handler = JOB_HANDLERS[job.type] as JobHandler<JobType>
+    await handler(job.payload, job)
+
+    summary.completed++
+    await finishJob(job, workerId, {
+      status: 'completed',
+      completed_at: new Date().toISOString()
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const dead = error instanceof PermanentJobError || job.attempts >= job.max_attempts
+
+    console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, message)
+
+    if (dead) {
+      summary.dead++
+      await finishJob(job, workerId, { status: 'dead', last_error: message })
+    } else {
+      summary.retried++
+      await finishJob(job, workerId, {
+        status: 'pending',
+        last_error: message,
+        run_at: new Date(Date.now() + backoffDelay(job.attempts)).toISOString()
+      })
+    }
+  }
+}
+
+/**
+ * Worker loop: claim and run due jobs until the queue is empty or the time budget is spent.
+ * A claimed batch runs concurrently so its mints can share one transaction; the contract
+ * service's transaction manager still sends from the hot wallet one at a time, and only
+ * while this run holds the wallet's lease. The lease is released at the end.
+ */
+export async function runJobs(timeBudgetMs: number): Promise<JobRunSummary> {
+  const workerId = `worker-${crypto.randomUUID()}`
+  const deadline = Date.now() + timeBudgetMs
+  const summary: JobRunSummary = { completed: 0, retried: 0, dead: 0 }
+  let usedWallet = false
+
+  try {
+    while (Date.now() < deadline) {
+      const jobs = await claimJobs(workerId, BATCH_SIZE)
+      if (jobs.length === 0) {
+        break
+      }
+
+      usedWallet ||= jobs.some(job => WALLET_JOB_TYPES.includes(job.type))
+      await Promise.all(jobs.map(job => processJob(job, workerId, summary)))
+    }
+  } finally {
+    if (usedWallet) {
+      const { releaseWalletLeases } = await import('@/lib/contract')
+      await releaseWalletLeases()
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ */
+export async function retryDeadJob(jobId: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Error retrying job ${jobId}: ${error.message}`)
+  }
+
+  return !!data
+}
+
+/**
+ * Load a purchase with the artwork and artist details the handlers need
+ */
+async function loadPurchase(purchaseId: number) {
+  const { data: purchase, error } = await supabaseAdmin
+    .from('purchases')
+    .select(`
+      *,
+      artwork:artworks(
+        *,
+        artist:artists(name, wallet_address)
+      )
+    `)
+    .eq('id', purchaseId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Error loading purchase ${purchaseId}: ${error.message}`)
+  }
+
+  if (!purchase || !purchase.artwork) {
+    throw new PermanentJobError(`Purchase ${purchaseId} not found`)
+  }
+
+  return purchase
+}
+
+const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  /**
+   * Create the artwork's token on the contract, once per artwork
+   */
+  async create_token({ artworkId }) {
+    const { data: artwork, error } = await supabaseAdmin
+      .from('artworks')
+      .select(`
+        *,
+        artist:artists(wallet_address)
+      `)
+      .eq('id', artworkId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading artwork ${artworkId}: ${error.message}`)
+    }
+
+    if (!artwork) {
+      throw new PermanentJobError(`Artwork ${artworkId} not found`)
+    }
+
+    if (artwork.token_id) {
+      return
+    }
+
+    const { getContractService } = await import('@/lib/contract')
+    const contractService = getContractService(artwork.chain_id)
+    const sentHashes: string[] = [...(artwork.token_pending_tx_hashes || [])]
+    let tokenId: number | null = null
+
+    // An earlier attempt may have given up on a creation that can still land; never send a second beside it
+    if (sentHashes.length > 0) {
+      const sent = await contractService.findSentTransaction(sentHashes)
+      if (sent.state === 'pending') {
+        throw new Error(`Earlier token creation for artwork ${artworkId} is still pending (${sentHashes.join(', ')})`)
+      }
+      if (sent.state === 'mined') {
+        tokenId = contractService.getCreatedTokenId(sent.receipt)
+      }
+    }
+
+    if (tokenId === null) {
+      tokenId = await contractService.createToken(
+        artwork.artist.wallet_address,
+        artwork.max_editions,
+        artwork.metadata_url,
+        artwork.royalty_bps,
+        async hash => {
+          sentHashes.push(hash)
+          const { error } = await supabaseAdmin
+            .from('artworks')
+            .update({ token_pending_tx_hashes: sentHashes })
+            .eq('id', artworkId)
+          if (error) {
+            throw new Error(error.message)
+          }
+        }
+      )
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('artworks')
+      .update({ token_id: tokenId, token_pending_tx_hashes: [] })
+      .eq('id', artworkId)
+
+    if (updateError) {
+      throw new Error(`Error saving token ${tokenId} for artwork ${artworkId}: ${updateError.message}`)
+    }
+  },
+
+  /**
+   * Render the device wallpaper crops of an artwork's original
+   */
+  async create_wallpapers({ artworkId }) {
+    const { data: artwork, error } = await supabaseAdmin
+      .from('artworks')
+      .select('id, original_path, focal_x, focal_y')
+      .eq('id', artworkId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading artwork ${artworkId}: ${error.message}`)
+    }
+
+    if (!artwork) {
+      throw new PermanentJobError(`Artwork ${artworkId} not found`)
+    }
+
+    if (!artwork.original_path) {
+      throw new PermanentJobError(`Artwork ${artworkId} has no stored original`)
+    }
+
+    const { downloadOriginal, storeFile, variantPath } = await import('@/lib/originals')
+    const { WALLPAPER_TARGETS, renderWallpaper } = await import('@/lib/wallpapers')
+
+    const original = await downloadOriginal(artwork.original_path)
+    const focal = { x: artwork.focal_x, y: artwork.focal_y }
+    const variants: WallpaperVariant[] = []
+
+    // One at a time: each render holds a full-size decode in memory
+    for (const target of WALLPAPER_TARGETS) {
+      const { data, width, height } = await renderWallpaper(original, target, focal)
+      const path = variantPath(artwork.original_path, target.key)
+      await storeFile(path, data, 'image/jpeg')
+      variants.push({ key: target.key, path, width, height, size: data.length })
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('artworks')
+      .update({ wallpaper_variants: variants })
+      .eq('id', artworkId)
+
+    if (updateError) {
+      throw new Error(`Error saving wallpapers for artwork ${artworkId}: ${updateError.message}`)
+    }
+  },
+
+  /**
+   * Mint the purchased edition to the buyer's wallet
+   */
+  async mint_nft({ purchaseId }) {
+    const purchase = await loadPurchase(purchaseId)
+
+    if (purchase.nft_minted || !purchase.buyer_wallet_address) {
+      return
+    }
+
+    // Refunded and disputed purchases aren't minted; a dispute closed for the sale requeues this job
+    if (purchase.payment_status !== 'completed') {
+      return
+    }
+
+    // The token must exist on-chain first; retry once the creation job has run
+    if (!purchase.artwork.token_id) {
+      await enqueueJob('create_token', { artworkId: purchase.artwork_id })
+      throw new Error(`Token for artwork ${purchase.artwork_id} not created yet`)
+    }
+
+    const { getContractService } = await import('@/lib/contract')
+    const contractService = getContractService(purchase.artwork.chain_id)
+    const sentHashes: string[] = [...(purchase.nft_pending_tx_hashes || [])]
+    let txHash: string | null = null
+
+    // An earlier attempt may have given up on a mint that can still land; never send a second beside it
+    if (sentHashes.length > 0) {
+      const sent = await contractService.findSentTransaction(sentHashes)
+      if (sent.state === 'pending') {
+        throw new Error(`Earlier mint for purchase ${purchaseId} is still pending (${sentHashes.join(', ')})`)
+      }
+      if (sent.state === 'mined') {
+        txHash = sent.receipt.hash
+      }
+    }
+
+    if (!txHash) {
+      // Mints due together go out in one batch transaction
+      try {
+        const result = await contractService.queueMint({
+          tokenId: purchase.artwork.token_id,
+          buyerAddress: purchase.buyer_wallet_address,
+          amount: 1,
+          onSent: async hash => {
+            sentHashes.push(hash)
+            const { error } = await supabaseAdmin
+              .from('purchases')
+              .update({ nft_pending_tx_hashes: sentHashes })
+              .eq('id', purchaseId)
+            if (error) {
+              throw new Error(error.message)
+            }
+          }
+        })
+        txHash = result.txHash
+      } catch (error) {
+        await supabaseAdmin
+          .from('purchases')
+          .update({ nft_mint_error: error instanceof Error ? error.message : String(error) })
+          .eq('id', purchaseId)
+        throw error
+      }
+    }
+
+    const { error } = await supabaseAdmin
+      .from('purchases')
+      .update({
+        nft_minted: true,
+        nft_token_id: purchase.artwork.token_id,
+        nft_tx_hash: txHash,
+        nft_pending_tx_hashes: [],
+        nft_mint_error: null
+      })
+      .eq('id', purchaseId)
+
+    if (error) {
+      throw new PermanentJobError(`Minted in ${txHash} but failed to record it: ${error.message}`)
+    }
+
+    console.log(`NFT minted successfully. Token ID: ${purchase.artwork.token_id}, TX: ${txHash}`)
+  },
+
+  /**
+   * Email the buyer their download link
+   */
+  async send_download_email({ purchaseId }) {
+    const purchase = await loadPurchase(purchaseId)
+
+    if (purchase.download_sent || purchase.payment_status !== 'completed') {
+      return
+    }
+
+    const { data: downloadToken } = await supabaseAdmin
+      .from('download_tokens')
+      .select('token')
+      .eq('purchase_id', purchaseId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!downloadToken) {
+      throw new PermanentJobError(`No download token for purchase ${purchaseId}`)
+    }
+
+    const { sendDownloadEmail } = await import('@/lib/email')
+    const sent = await sendDownloadEmail({
+      buyerEmail: purchase.buyer_email,
+      artworkTitle: purchase.artwork.title,
+      artistName: purchase.artwork.artist?.name || 'Unknown Artist',
+      downloadToken: downloadToken.token,
+      purchaseAmount: purchase.amount_paid_usd,
+      claimToken: purchase.nft_minted ? undefined : purchase.claim_token
+    })
+
+    if (!sent) {
+      throw new Error(`Failed to send download email for purchase ${purchaseId}`)
+    }
+
+    await supabaseAdmin
+      .from('purchases')
+      .update({ download_sent: true })
+      .eq('id', purchaseId)
+  },
+
+  /**
+   * Email the buyer about a refund or dispute
+   */
+  async send_purchase_notice({ purchaseId, notice }) {
+    const purchase = await loadPurchase(purchaseId)
+
+    const { sendPurchaseNoticeEmail } = await import('@/lib/email')
+    const sent = await sendPurchaseNoticeEmail({
+      buyerEmail: purchase.buyer_email,
+      artworkTitle: purchase.artwork.title,
+      notice
+    })
+
+    if (!sent) {
+      throw new Error(`Failed to send ${notice} notice for purchase ${purchaseId}`)
+    }
+  }
+}
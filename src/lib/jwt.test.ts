@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { signJwt, verifyJwt } from '@/lib/jwt'
+
+const secret = 'test-secret'
+const now = Math.floor(Date.now() / 1000)
+const payload = { sub: '0xabc', iat: now, exp: now + 60, role: 'authenticated' }
+
+describe('JWTs', () => {
+  it('verify with the secret they were signed with', () => {
+    expect(verifyJwt(signJwt(payload, secret), secret)).toEqual(payload)
+  })
+
+  it('are rejected with another secret', () => {
+    expect(verifyJwt(signJwt(payload, secret), 'other-secret')).toBeNull()
+  })
+
+  it('are rejected when the payload is changed', () => {
+    const [header, , signature] = signJwt(payload, secret).split('.')
+    const forged = Buffer.from(JSON.stringify({ ...payload, sub: '0xdef' })).toString('base64url')
+    expect(verifyJwt(`${header}.${forged}.${signature}`, secret)).toBeNull()
+  })
+
+  it('are rejected once expired', () => {
+    expect(verifyJwt(signJwt({ ...payload, exp: now - 1 }, secret), secret)).toBeNull()
+  })
+
+  it.each(['', 'a.b', 'a.b.c.d'])('are rejected when malformed: %j', token => {
+    expect(verifyJwt(token, secret)).toBeNull()
+  })
+})
@@ -0,0 +1,55 @@
+import crypto from 'crypto'
+
+// Minimal HS256 JWT helpers for server-issued session tokens
+
+export interface JwtPayload {
+  sub: string
+  iat: number
+  exp: number
+  [claim: string]: unknown
+}
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url')
+}
+
+function hmac(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+/**
+ * Sign a payload as an HS256 JWT
+ */
+export function signJwt(payload: JwtPayload, secret: string): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const body = base64UrlEncode(JSON.stringify(payload))
+  return `${header}.${body}.${hmac(`${header}.${body}`, secret)}`
+}
+
+/**
+ * Verify an HS256 JWT and return its payload, or null if invalid or expired
+ */
+export function verifyJwt<T extends JwtPayload = JwtPayload>(token: string, secret: string): T | null {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  const [header, body, signature] = parts
+  const expected = Buffer.from(hmac(`${header}.${body}`, secret))
+  const actual = Buffer.from(signature)
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+      return null
+    }
+    return payload
+  } catch {
+    return null
+  }
+}
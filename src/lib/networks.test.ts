@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getContractAddress, getDeployBlock, getNetwork, NETWORKS } from '@/lib/networks'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getDeployBlock', () => {
+  const baseSepolia = getNetwork(84532)
+
+  it('reads the block recorded with the registry address', () => {
+    expect(getDeployBlock({ ...baseSepolia, contractAddress: '0xabc', deployBlock: 1234 })).toBe(1234)
+  })
+
+  it('requires a block for a registry address', () => {
+    expect(() => getDeployBlock({ ...baseSepolia, contractAddress: '0xabc', deployBlock: null })).toThrow(/no deployBlock/)
+  })
+
+  it('takes an overriding address\'s block from the environment too', () => {
+    vi.stubEnv('CONTRACT_ADDRESS', '0xdef')
+    vi.stubEnv('CONTRACT_DEPLOY_BLOCK', '5678')
+
+    expect(getDeployBlock({ ...baseSepolia, contractAddress: '0xabc', deployBlock: 1234 })).toBe(5678)
+  })
+
+  it.each([undefined, '', 'latest'])('refuses an overriding address with deploy block %j', block => {
+    vi.stubEnv('CONTRACT_ADDRESS', '0xdef')
+    if (block !== undefined) {
+      vi.stubEnv('CONTRACT_DEPLOY_BLOCK', block)
+    }
+
+    expect(() => getDeployBlock({ ...baseSepolia, contractAddress: '0xabc', deployBlock: 1234 }))
+      .toThrow(/CONTRACT_DEPLOY_BLOCK must give the block/)
+  })
+})
+
+describe('registry', () => {
+  it('has no network named base, so old deploy commands fail instead of reaching mainnet', () => {
+    expect(NETWORKS.map(network => network.key)).not.toContain('base')
+    expect(NETWORKS.find(network => network.key === 'baseSepolia')?.chainId).toBe(84532)
+    expect(NETWORKS.find(network => network.key === 'baseMainnet')?.chainId).toBe(8453)
+  })
+
+  it('gives every environment address override a deploy block override', () => {
+    for (const network of NETWORKS.filter(network => network.contractAddressEnv)) {
+      expect(network.deployBlockEnv).toBeTruthy()
+    }
+  })
+
+  it('prefers the environment address over the registry', () => {
+    vi.stubEnv('CONTRACT_ADDRESS', '0xdef')
+
+    expect(getContractAddress(getNetwork(84532))).toBe('0xdef')
+  })
+})
@@ -0,0 +1,118 @@
+// Network registry shared by the app, the wallet manager and scripts/deploy.js.
+// Chains and their deployments live in networks.json at the repo root.
+
+import registry from '../../networks.json'
+
+export interface NetworkConfig {
+  key: string // Hardhat network name
+  chainId: number
+  name: string
+  rpcUrl: string
+  rpcUrlEnv?: string // Overrides rpcUrl on the server, e.g. for a keyed RPC endpoint
+  explorerUrl: string | null
+  explorerApiUrl: string | null
+  explorerApiKeyEnv?: string // Contract verification key, read by hardhat.config.js
+  nativeCurrency: { name: string; symbol: string; decimals: number }
+  contractAddress: string | null // Written by scripts/deploy.js
+  contractAddressEnv?: string // Overrides contractAddress on the server
+  deployBlock: number | null // Block contractAddress was deployed at; the chain indexer starts reading there
+  deployBlockEnv?: string // Deploy block of the contractAddressEnv override, required alongside it
+  confirmations: number // Blocks before a transaction counts as final
+  walletSupported: boolean // Whether wallets may connect on this chain
+}
+
+export const NETWORKS: NetworkConfig[] = Object.entries(registry.networks).map(
+  ([key, network]) => ({ key, ...network })
+)
+
+/**
+ * Look up a network by chain ID
+ */
+export function findNetwork(chainId: number): NetworkConfig | undefined {
+  return NETWORKS.find(network => network.chainId === chainId)
+}
+
+/**
+ * Look up a network by chain ID, throwing if the registry doesn't list it
+ */
+export function getNetwork(chainId: number): NetworkConfig {
+  const network = findNetwork(chainId)
+  if (!network) {
+    throw new Error(`Unknown chain: ${chainId}`)
+  }
+  return network
+}
+
+/**
+ * Chain new artworks are created on: NEXT_PUBLIC_CHAIN_ID, else the registry default
+ */
+export function getDefaultChainId(): number {
+  return parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || String(registry.defaultChainId))
+}
+
+export function getDefaultNetwork(): NetworkConfig {
+  return getNetwork(getDefaultChainId())
+}
+
+/**
+ * Chains wallets may connect on, default first
+ */
+export function getWalletChainIds(): number[] {
+  const defaultChainId = getDefaultChainId()
+  return NETWORKS
+    .filter(network => network.walletSupported)
+    .map(network => network.chainId)
+    .sort((a, b) => Number(b === defaultChainId) - Number(a === defaultChainId))
+}
+
+/**
+ * RPC URL for server-side calls, preferring the network's environment override
+ */
+export function getRpcUrl(network: NetworkConfig): string {
+  return (network.rpcUrlEnv && process.env[network.rpcUrlEnv]) || network.rpcUrl
+}
+
+/**
+ * Contract address on a network, preferring its environment override; null if not deployed
+ */
+export function getContractAddress(network: NetworkConfig): string | null {
+  return (network.contractAddressEnv && process.env[network.contractAddressEnv]) || network.contractAddress
+}
+
+/**
+ * Block the configured contract was deployed at, where the chain indexer starts. An address
+ * from the environment must come with its own deploy block, so the indexer never falls
+ * back to reading from genesis or from another deployment's block.
+ */
+export function getDeployBlock(network: NetworkConfig): number {
+  if (network.contractAddressEnv && process.env[network.contractAddressEnv]) {
+    const value = network.deployBlockEnv && process.env[network.deployBlockEnv]
+    if (!value || !/^\d+$/.test(value)) {
+      throw new Error(`${network.contractAddressEnv} is set, so ${network.deployBlockEnv || 'a deploy block'} must give the block it was deployed at`)
+    }
+    return parseInt(value)
+  }
+
+  if (network.deployBlock === null) {
+    throw new Error(`${network.name} has a contract address but no deployBlock in networks.json`)
+  }
+  return network.deployBlock
+}
+
+/**
+ * Networks the contract is deployed on
+ */
+export function getDeployedNetworks(): NetworkConfig[] {
+  return NETWORKS.filter(network => getContractAddress(network))
+}
+
+/**
+ * Block explorer link for a transaction, address or token, if the network has an explorer
+ */
+export function getExplorerUrl(
+  network: NetworkConfig,
+  kind: 'tx' | 'address' | 'token',
+  value: string
+): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/${kind}/${value}` : null
+}
@@ -0,0 +1,92 @@
+// Self-service order lookup: a buyer who lost their download email gets a magic link
+// listing their purchases, from which they can issue fresh download tokens.
+
+import crypto from 'crypto'
+import { supabaseAdmin } from '@/lib/supabase'
+
+export const LOOKUP_LINK_TTL_SECONDS = 60 * 60
+export const MAX_LOOKUPS_PER_EMAIL_PER_HOUR = 3
+export const REISSUED_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60 // Same window as the original link
+export const MAX_REISSUES_PER_PURCHASE_PER_DAY = 2
+export const MAX_REISSUES_PER_EMAIL_PER_DAY = 5
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+}
+
+/**
+ * Case-insensitive exact-match pattern for an email in ilike filters
+ */
+export function emailPattern(email: string): string {
+  return email.replace(/[\\%_]/g, '\\$&')
+}
+
+function generateToken(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Issue a lookup link for an email. Returns the token, or null when the email is rate limited.
+ */
+export async function createOrderLookup(email: string): Promise<string | null> {
+  const token = generateToken('ol')
+
+  const { data: created, error } = await supabaseAdmin.rpc('create_order_lookup', {
+    p_buyer_email: normalizeEmail(email),
+    p_token: token,
+    p_ttl_seconds: LOOKUP_LINK_TTL_SECONDS,
+    p_max_per_hour: MAX_LOOKUPS_PER_EMAIL_PER_HOUR
+  })
+
+  if (error) {
+    throw new Error(`Error creating order lookup: ${error.message}`)
+  }
+
+  return created ? token : null
+}
+
+/**
+ * Email a lookup link proves, or null if the link is unknown or expired
+ */
+export async function getOrderLookupEmail(token: string): Promise<string | null> {
+  const { data: lookup, error } = await supabaseAdmin
+    .from('order_lookups')
+    .select('buyer_email, expires_at')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Error loading order lookup: ${error.message}`)
+  }
+
+  if (!lookup || new Date(lookup.expires_at) < new Date()) {
+    return null
+  }
+
+  return lookup.buyer_email
+}
+
+/**
+ * Issue a fresh download token for a purchase. Returns the token, or null when rate limited.
+ */
+export async function reissueDownloadToken(purchaseId: number): Promise<string | null> {
+  const token = generateToken('dl')
+
+  const { data: issued, error } = await supabaseAdmin.rpc('reissue_download_token', {
+    p_purchase_id: purchaseId,
+    p_token: token,
+    p_ttl_seconds: REISSUED_TOKEN_TTL_SECONDS,
+    p_max_per_purchase: MAX_REISSUES_PER_PURCHASE_PER_DAY,
+    p_max_per_email: MAX_REISSUES_PER_EMAIL_PER_DAY
+  })
+
+  if (error) {
+    throw new Error(`Error reissuing download token for purchase ${purchaseId}: ${error.message}`)
+  }
+
+  return issued ? token : null
+}
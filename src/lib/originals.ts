@@ -0,0 +1,177 @@
+// Full-resolution originals and their wallpaper variants live in a private Supabase Storage
+// bucket, apart from the public previews. Downloads read them through short-lived signed URLs.
+
+import { randomUUID } from 'crypto'
+import { Zip, ZipPassThrough } from 'fflate'
+import { supabaseAdmin } from '@/lib/supabase'
+
+export const ORIGINALS_BUCKET = 'artwork-originals'
+
+const SIGNED_URL_TTL_SECONDS = 60 // Long enough to open the stream, not to share
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+}
+
+export interface StoredOriginal {
+  path: string
+  contentType: string
+  size: number
+}
+
+export function extensionForContentType(contentType: string): string {
+  return EXTENSIONS[contentType] || 'bin'
+}
+
+/**
+ * Store an artist's original upload privately, under their artist ID
+ */
+export async function uploadOriginal(artistId: number, file: File): Promise<StoredOriginal> {
+  const path = `${artistId}/${randomUUID()}.${extensionForContentType(file.type)}`
+
+  const { error } = await supabaseAdmin.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false })
+
+  if (error) {
+    throw new Error(`Error storing original: ${error.message}`)
+  }
+
+  return { path, contentType: file.type, size: file.size }
+}
+
+/**
+ * Path of a wallpaper variant, stored beside its original
+ */
+export function variantPath(originalPath: string, key: string): string {
+  return `${originalPath.replace(/\.[^./]*$/, '')}-${key}.jpg`
+}
+
+/**
+ * Store a generated file, replacing any earlier copy at the same path
+ */
+export async function storeFile(path: string, data: Buffer, contentType: string): Promise<void> {
+  const { error } = await supabaseAdmin.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(path, data, { contentType, upsert: true })
+
+  if (error) {
+    throw new Error(`Error storing ${path}: ${error.message}`)
+  }
+}
+
+/**
+ * Read a stored original into memory, for processing
+ */
+export async function downloadOriginal(path: string): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage.from(ORIGINALS_BUCKET).download(path)
+
+  if (error || !data) {
+    throw new Error(`Error reading original ${path}: ${error?.message}`)
+  }
+
+  return Buffer.from(await data.arrayBuffer())
+}
+
+/**
+ * Remove an original whose artwork was never saved
+ */
+export async function removeOriginal(path: string): Promise<void> {
+  await removeStoredFiles([path])
+}
+
+/**
+ * Remove stored files, such as a deleted artwork's original and wallpaper crops
+ */
+export async function removeStoredFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseAdmin.storage.from(ORIGINALS_BUCKET).remove(paths)
+  if (error) {
+    console.error(`Error removing ${paths.join(', ')}:`, error)
+  }
+}
+
+/**
+ * Fetch an original from storage, passing an optional Range header through
+ */
+export async function fetchOriginal(path: string, range?: string | null): Promise<Response> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(ORIGINALS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+
+  if (error || !data) {
+    throw new Error(`Error signing original ${path}: ${error?.message}`)
+  }
+
+  return fetch(data.signedUrl, {
+    headers: range ? { Range: range } : undefined,
+    cache: 'no-store'
+  })
+}
+
+/**
+ * Stream stored files as a zip, one at a time. Images are already compressed, so entries are stored as-is.
+ */
+export function zipStoredFiles(files: { name: string; path: string }[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async start(controller) {
+      const zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error)
+          return
+        }
+        controller.enqueue(chunk)
+        if (final) {
+          controller.close()
+        }
+      })
+
+      try {
+        for (const file of files) {
+          const response = await fetchOriginal(file.path)
+          if (!response.ok || !response.body) {
+            throw new Error(`Error fetching ${file.path}: ${response.status}`)
+          }
+
+          const entry = new ZipPassThrough(file.name)
+          zip.add(entry)
+
+          const reader = response.body.getReader()
+          for (;;) {
+            const { done, value } = await reader.read()
+            if (done) break
+            entry.push(value)
+          }
+          entry.push(new Uint8Array(0), true)
+        }
+
+        zip.end()
+      } catch (error) {
+        zip.terminate()
+        controller.error(error)
+      }
+    }
+  })
+}
+
+/**
+ * ASCII file name for a title, without extension
+ */
+export function safeFileName(title: string): string {
+  return title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'artwork'
+}
+
+/**
+ * Content-Disposition header that saves the file under the given name
+ */
+export function attachmentDisposition(name: string, extension: string): string {
+  const utf8Name = encodeURIComponent(`${name.trim() || 'artwork'}.${extension}`)
+  return `attachment; filename="${safeFileName(name)}.${extension}"; filename*=UTF-8''${utf8Name}`
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { decodeCursor, encodeCursor, keysetFilter, parsePageLimit, toPage } from '@/lib/pagination'
+
+describe('cursors', () => {
+  it('round-trip', () => {
+    const cursor = { value: '2026-01-01T00:00:00+00:00', id: 42 }
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor)
+  })
+
+  it('decode to null when missing or malformed', () => {
+    expect(decodeCursor(null)).toBeNull()
+    expect(decodeCursor('not a cursor')).toBeNull()
+    expect(decodeCursor(Buffer.from(JSON.stringify({ value: 1 })).toString('base64url'))).toBeNull()
+    expect(decodeCursor(Buffer.from(JSON.stringify({ value: {}, id: 1 })).toString('base64url'))).toBeNull()
+  })
+})
+
+describe('keysetFilter', () => {
+  it('selects rows after the cursor, breaking ties on id', () => {
+    expect(keysetFilter('price_usd', true, { value: 5, id: 7 }))
+      .toBe('price_usd.gt."5",and(price_usd.eq."5",id.gt.7)')
+    expect(keysetFilter('created_at', false, { value: '2026-01-01', id: 7 }))
+      .toBe('created_at.lt."2026-01-01",and(created_at.eq."2026-01-01",id.lt.7)')
+  })
+
+  it('escapes quotes in the value', () => {
+    expect(keysetFilter('title', true, { value: 'a"b', id: 1 })).toContain('title.gt."a\\"b"')
+  })
+})
+
+describe('toPage', () => {
+  const rows = [1, 2, 3].map(id => ({ id, price_usd: id * 10 }))
+
+  it('returns a cursor at the last row when there is another page', () => {
+    const { items, nextCursor } = toPage(rows, 'price_usd', 2)
+    expect(items.map(row => row.id)).toEqual([1, 2])
+    expect(decodeCursor(nextCursor)).toEqual({ value: 20, id: 2 })
+  })
+
+  it('returns no cursor on the last page', () => {
+    expect(toPage(rows, 'price_usd', 3)).toEqual({ items: rows, nextCursor: null })
+    expect(toPage([], 'price_usd', 3)).toEqual({ items: [], nextCursor: null })
+  })
+})
+
+describe('parsePageLimit', () => {
+  it('accepts positive integers up to 100', () => {
+    expect(parsePageLimit('5', 24)).toBe(5)
+    expect(parsePageLimit('500', 24)).toBe(100)
+  })
+
+  it.each([null, '', 'abc', '0', '-3', '2.5', 'NaN'])('falls back to the default for %j', value => {
+    expect(parsePageLimit(value, 24)).toBe(24)
+  })
+})
@@ -0,0 +1,83 @@
+// Keyset (cursor) pagination helpers for PostgREST queries.
+// Pages are ordered by (sort column, id) so rows inserted while a client is
+// paging never shift later pages or show up twice.
+
+export interface PageCursor {
+  value: string | number
+  id: number
+}
+
+const MAX_PAGE_SIZE = 100
+
+/**
+ * Page size from a query parameter, falling back to the default when missing or not a positive integer
+ */
+export function parsePageLimit(value: string | null, fallback: number): number {
+  const limit = Number(value)
+  return value && Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : fallback
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeCursor(encoded: string | null): PageCursor | null {
+  if (!encoded) {
+    return null
+  }
+
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'))
+    if (typeof cursor.id !== 'number' || (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')) {
+      return null
+    }
+    return cursor
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the PostgREST `or` filter that selects rows strictly after the cursor
+ */
+export function keysetFilter(column: string, ascending: boolean, cursor: PageCursor): string {
+  const op = ascending ? 'gt' : 'lt'
+  const value = `"${String(cursor.value).replace(/"/g, '\\"')}"`
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`
+}
+
+/**
+ * Apply ordering and the cursor to a query, fetching one extra row to detect a next page
+ */
+export function applyKeyset<Q extends {
+  order(column: string, options: { ascending: boolean }): Q
+  or(filters: string): Q
+  limit(count: number): Q
+}>(query: Q, column: string, ascending: boolean, cursor: PageCursor | null, limit: number): Q {
+  let paged = query
+    .order(column, { ascending })
+    .order('id', { ascending })
+
+  if (cursor) {
+    paged = paged.or(keysetFilter(column, ascending, cursor))
+  }
+
+  return paged.limit(limit + 1)
+}
+
+/**
+ * Split a fetched page into rows and the cursor for the next page
+ */
+export function toPage<T extends { id: number }>(
+  rows: T[],
+  column: keyof T,
+  limit: number
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit)
+  const last = items[items.length - 1]
+  const nextCursor = rows.length > limit && last
+    ? encodeCursor({ value: last[column] as unknown as string | number, id: last.id })
+    : null
+
+  return { items, nextCursor }
+}
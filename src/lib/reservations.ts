@@ -0,0 +1,74 @@
+import { supabaseAdmin } from '@/lib/supabase'
+
+// Stripe requires checkout sessions to stay open for at least 30 minutes
+export const CHECKOUT_SESSION_TTL_SECONDS = 31 * 60
+
+// Holds outlive their checkout session so a late completion webhook still finds them
+const RESERVATION_HOLD_SECONDS = CHECKOUT_SESSION_TTL_SECONDS + 5 * 60
+
+/**
+ * Hold one edition of an artwork for a buyer, returning the reservation id or null if sold out
+ */
+export async function reserveEdition(artworkId: number, buyerEmail: string): Promise<number | null> {
+  const { data, error } = await supabaseAdmin.rpc('reserve_artwork_edition', {
+    p_artwork_id: artworkId,
+    p_buyer_email: buyerEmail,
+    p_hold_seconds: RESERVATION_HOLD_SECONDS
+  })
+
+  if (error) {
+    throw new Error(`Error reserving edition: ${error.message}`)
+  }
+
+  return data ?? null
+}
+
+/**
+ * Link a reservation to the Stripe checkout session created for it
+ */
+export async function attachReservation(reservationId: number, stripeSessionId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('edition_reservations')
+    .update({ stripe_session_id: stripeSessionId, updated_at: new Date().toISOString() })
+    .eq('id', reservationId)
+
+  if (error) {
+    throw new Error(`Error attaching reservation: ${error.message}`)
+  }
+}
+
+/**
+ * Give a held edition back, by reservation id or checkout session id
+ */
+export async function releaseReservation(match: { id: number } | { stripeSessionId: string }): Promise<void> {
+  let query = supabaseAdmin
+    .from('edition_reservations')
+    .update({ status: 'released', updated_at: new Date().toISOString() })
+    .eq('status', 'held')
+
+  query = 'id' in match
+    ? query.eq('id', match.id)
+    : query.eq('stripe_session_id', match.stripeSessionId)
+
+  const { error } = await query
+
+  if (error) {
+    console.error('Error releasing reservation:', error)
+  }
+}
+
+/**
+ * Convert a paid checkout's hold into a sold edition. Returns false when no edition is left.
+ */
+export async function claimReservedEdition(stripeSessionId: string, artworkId: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('claim_reserved_edition', {
+    p_stripe_session_id: stripeSessionId,
+    p_artwork_id: artworkId
+  })
+
+  if (error) {
+    throw new Error(`Error updating artwork editions: ${error.message}`)
+  }
+
+  return data === true
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { formatRoyalty, parseRoyaltyPercent, MAX_ROYALTY_BPS } from '@/lib/royalty'
+
+describe('parseRoyaltyPercent', () => {
+  it('converts percentages to basis points', () => {
+    expect(parseRoyaltyPercent('7.5')).toBe(750)
+    expect(parseRoyaltyPercent(10)).toBe(1000)
+    expect(parseRoyaltyPercent('0')).toBe(0)
+  })
+
+  it('rounds to whole basis points', () => {
+    expect(parseRoyaltyPercent('0.126')).toBe(13)
+  })
+
+  it('allows the contract cap but nothing above it', () => {
+    expect(parseRoyaltyPercent(MAX_ROYALTY_BPS / 100)).toBe(MAX_ROYALTY_BPS)
+    expect(parseRoyaltyPercent(MAX_ROYALTY_BPS / 100 + 0.01)).toBeNull()
+  })
+
+  it.each(['-1', 'ten', '5abc', '1e1', '', undefined, null, NaN])('rejects %j', value => {
+    expect(parseRoyaltyPercent(value)).toBeNull()
+  })
+})
+
+describe('formatRoyalty', () => {
+  it('shows basis points as a percentage', () => {
+    expect(formatRoyalty(750)).toBe('7.5%')
+    expect(formatRoyalty(1000)).toBe('10%')
+  })
+})
@@ -0,0 +1,26 @@
+// Artist royalties on secondary sales, in basis points (10% = 1000).
+// MAX_ROYALTY_BPS mirrors the cap enforced by ImNotArtNFT.createToken.
+export const MAX_ROYALTY_BPS = 1500
+export const DEFAULT_ROYALTY_BPS = 1000
+
+/**
+ * Parse a royalty percentage such as "7.5" into basis points, or null if invalid or over the cap.
+ * Strings must be a plain decimal throughout, so "5abc" is refused rather than read as 5.
+ */
+export function parseRoyaltyPercent(value: unknown): number | null {
+  if (typeof value === 'string' && !/^\s*\d+(\.\d+)?\s*$/.test(value)) {
+    return null
+  }
+
+  const percent = typeof value === 'number' ? value : parseFloat(String(value))
+  if (!Number.isFinite(percent)) {
+    return null
+  }
+
+  const bps = Math.round(percent * 100)
+  return bps >= 0 && bps <= MAX_ROYALTY_BPS ? bps : null
+}
+
+export function formatRoyalty(bps: number): string {
+  return `${bps / 100}%`
+}
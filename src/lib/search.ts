@@ -0,0 +1,77 @@
+// Marketplace search parameters shared by the browse page and /api/search
+
+export const SEARCH_SORTS = ['newest', 'price_asc', 'price_desc', 'popular'] as const
+
+export type SearchSort = typeof SEARCH_SORTS[number]
+
+export const SORT_LABELS: Record<SearchSort, string> = {
+  newest: 'Newest',
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  popular: 'Most Collected'
+}
+
+// Sort key for each order; ties are broken by id in the same direction. current_editions
+// changes as editions sell, so a popular page fetched mid-browse can skip or repeat an
+// artwork whose sales moved it across the cursor. Repricing does the same to the price
+// sorts, but only when an artist edits an artwork.
+export const SORT_COLUMNS: Record<SearchSort, { column: 'created_at' | 'price_usd' | 'current_editions'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  price_asc: { column: 'price_usd', ascending: true },
+  price_desc: { column: 'price_usd', ascending: false },
+  popular: { column: 'current_editions', ascending: false }
+}
+
+export const CATEGORIES = ['Abstract', 'Nature', 'Digital Art', 'Photography', 'Minimalist', 'Fantasy']
+
+export interface ArtworkSearchParams {
+  q?: string
+  category?: string
+  tag?: string
+  artist?: string
+  minPrice?: number
+  maxPrice?: number
+  available?: boolean
+  sort: SearchSort
+}
+
+function parsePrice(value: string | null): number | undefined {
+  if (!value) return undefined
+  const price = parseFloat(value)
+  return isNaN(price) || price < 0 ? undefined : price
+}
+
+/**
+ * Read search parameters from a URL query, dropping invalid values
+ */
+export function parseSearchParams(params: URLSearchParams): ArtworkSearchParams {
+  const sort = params.get('sort') as SearchSort
+  return {
+    q: params.get('q')?.trim() || undefined,
+    category: params.get('category') || undefined,
+    tag: params.get('tag')?.trim() || undefined,
+    artist: params.get('artist')?.toLowerCase() || undefined,
+    minPrice: parsePrice(params.get('minPrice')),
+    maxPrice: parsePrice(params.get('maxPrice')),
+    available: params.get('available') === 'true' || undefined,
+    sort: SEARCH_SORTS.includes(sort) ? sort : 'newest'
+  }
+}
+
+/**
+ * Serialize search parameters back to a URL query, omitting defaults
+ */
+export function toSearchQuery(search: Partial<ArtworkSearchParams>): string {
+  const params = new URLSearchParams()
+
+  if (search.q) params.set('q', search.q)
+  if (search.category) params.set('category', search.category)
+  if (search.tag) params.set('tag', search.tag)
+  if (search.artist) params.set('artist', search.artist)
+  if (search.minPrice !== undefined) params.set('minPrice', String(search.minPrice))
+  if (search.maxPrice !== undefined) params.set('maxPrice', String(search.maxPrice))
+  if (search.available) params.set('available', 'true')
+  if (search.sort && search.sort !== 'newest') params.set('sort', search.sort)
+
+  return params.toString()
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { formatSiweMessage, parseSiweMessage, SIWE_STATEMENT, type SiweMessage } from '@/lib/siwe'
+
+const message: SiweMessage = {
+  domain: 'imnotart.com',
+  address: '0x52908400098527886E0F7030069857D2E4169EE7',
+  statement: SIWE_STATEMENT,
+  uri: 'https://imnotart.com',
+  version: '1',
+  chainId: 8453,
+  nonce: 'abc123def456',
+  issuedAt: '2026-01-01T00:00:00.000Z'
+}
+
+describe('SIWE messages', () => {
+  it('parses what it formats', () => {
+    expect(parseSiweMessage(formatSiweMessage(message))).toEqual({ ...message, expirationTime: undefined })
+  })
+
+  it('keeps the expiration time', () => {
+    const expiring = { ...message, expirationTime: '2026-01-01T00:10:00.000Z' }
+    expect(parseSiweMessage(formatSiweMessage(expiring))?.expirationTime).toBe(expiring.expirationTime)
+  })
+
+  it('parses a message without a statement', () => {
+    const parsed = parseSiweMessage(formatSiweMessage({ ...message, statement: undefined }))
+    expect(parsed?.statement).toBeUndefined()
+    expect(parsed?.nonce).toBe(message.nonce)
+  })
+
+  it('lays the message out as EIP-4361 does', () => {
+    expect(formatSiweMessage(message).split('\n').slice(0, 4)).toEqual([
+      'imnotart.com wants you to sign in with your Ethereum account:',
+      message.address,
+      '',
+      SIWE_STATEMENT
+    ])
+  })
+
+  it('rejects an invalid address', () => {
+    expect(parseSiweMessage(formatSiweMessage({ ...message, address: '0x1234' }))).toBeNull()
+  })
+
+  it('rejects a missing header', () => {
+    const text = formatSiweMessage(message).replace('wants you to sign in', 'asks you to sign in')
+    expect(parseSiweMessage(text)).toBeNull()
+  })
+
+  it.each(['URI', 'Chain ID', 'Nonce', 'Issued At'])('rejects a message without %s', field => {
+    const text = formatSiweMessage(message)
+      .split('\n')
+      .filter(line => !line.startsWith(`${field}: `))
+      .join('\n')
+    expect(parseSiweMessage(text)).toBeNull()
+  })
+
+  it('rejects other versions', () => {
+    expect(parseSiweMessage(formatSiweMessage({ ...message, version: '2' }))).toBeNull()
+  })
+
+  it('rejects a non-numeric chain ID', () => {
+    const text = formatSiweMessage(message).replace('Chain ID: 8453', 'Chain ID: base')
+    expect(parseSiweMessage(text)).toBeNull()
+  })
+})
@@ -0,0 +1,167 @@
+// Sign-In With Ethereum (EIP-4361) message helpers shared by client and server
+
+import { ethers } from 'ethers'
+
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+}
+
+export const SIWE_STATEMENT = 'Sign in to ImNotArt to manage your artworks.'
+
+/**
+ * Statement a buyer signs to have a purchase's NFT minted to their wallet
+ */
+export function nftClaimStatement(purchaseId: number): string {
+  return `Claim the ImNotArt NFT for order #${purchaseId} to this wallet.`
+}
+
+/**
+ * Build the EIP-4361 message text for signing
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your Ethereum account:`,
+    message.address,
+    ''
+  ]
+
+  if (message.statement) {
+    lines.push(message.statement, '')
+  }
+
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  )
+
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Parse EIP-4361 message text, returning null if it is malformed
+ */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split('\n')
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/)
+  if (!header || !lines[1] || !ethers.isAddress(lines[1])) {
+    return null
+  }
+
+  const fields: Record<string, string> = {}
+  let statement: string | undefined
+
+  for (const line of lines.slice(2)) {
+    const field = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time): (.+)$/)
+    if (field) {
+      fields[field[1]] = field[2]
+    } else if (line && !statement) {
+      statement = line
+    }
+  }
+
+  const chainId = parseInt(fields['Chain ID'] || '', 10)
+  if (!fields['URI'] || fields['Version'] !== '1' || !chainId || !fields['Nonce'] || !fields['Issued At']) {
+    return null
+  }
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId,
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time']
+  }
+}
+
+/**
+ * Fetch a nonce and have the wallet sign a SIWE message carrying the given statement
+ */
+export async function signSiweMessage(
+  signer: ethers.Signer,
+  chainId: number,
+  statement: string
+): Promise<{ message: string; signature: string }> {
+  const nonceResponse = await fetch('/api/auth/nonce')
+  const { nonce, error: nonceError } = await nonceResponse.json()
+
+  if (!nonceResponse.ok) {
+    throw new Error(nonceError || 'Failed to start sign-in')
+  }
+
+  const address = ethers.getAddress(await signer.getAddress())
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address,
+    statement,
+    uri: window.location.origin,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString()
+  })
+
+  const signature = await signer.signMessage(message)
+  return { message, signature }
+}
+
+/**
+ * Run the nonce/sign/verify flow from the browser and open a server session
+ */
+export async function signInWithEthereum(signer: ethers.Signer, chainId: number): Promise<string> {
+  const { message, signature } = await signSiweMessage(signer, chainId, SIWE_STATEMENT)
+
+  const verifyResponse = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ message, signature }),
+  })
+
+  const result = await verifyResponse.json()
+
+  if (!verifyResponse.ok) {
+    throw new Error(result.error || 'Sign-in failed')
+  }
+
+  return result.address
+}
+
+/**
+ * Fetch the wallet address of the current server session, if any
+ */
+export async function fetchSessionAddress(): Promise<string | null> {
+  const response = await fetch('/api/auth/session')
+  if (!response.ok) {
+    return null
+  }
+
+  const { address } = await response.json()
+  return address || null
+}
+
+/**
+ * End the current server session
+ */
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/session', { method: 'DELETE' })
+}
@@ -422,6 +422,12 @@ export function ipfsToHttpUrl(ipfsUrl: string): string {
   return ipfsUrl
 }
 
+// Helper function to convert an HTTP gateway URL back to an IPFS URL
+export function httpToIpfsUrl(httpUrl: string): string {
+  const match = httpUrl.match(/\/ipfs\/(.+)$/)
+  return match ? `ipfs://${match[1]}` : httpUrl
+}
+
 // NFT Metadata standard (ERC-1155)
 export interface NFTMetadata {
   name: string
@@ -437,4 +443,44 @@ export interface NFTMetadata {
     tags?: string[]
     artist?: string
   }
-}
\ No newline at end of file
+}
+
+export interface ArtworkMetadataParams {
+  title: string
+  description?: string | null
+  imageIpfsUrl: string
+  category?: string | null
+  tags?: string[] | null
+  maxEditions: number
+  priceUsd: number
+  artistName: string
+}
+
+// Build the ERC-1155 metadata document for an artwork
+export function buildArtworkMetadata(params: ArtworkMetadataParams): NFTMetadata {
+  return {
+    name: params.title,
+    description: params.description || `NFT wallpaper by artist`,
+    image: params.imageIpfsUrl,
+    external_url: `${process.env.NEXT_PUBLIC_APP_URL}/artwork/`, // Will be updated after creation
+    attributes: [
+      {
+        trait_type: "Category",
+        value: params.category || "Wallpaper"
+      },
+      {
+        trait_type: "Max Editions",
+        value: params.maxEditions
+      },
+      {
+        trait_type: "Price (USD)",
+        value: params.priceUsd
+      }
+    ],
+    properties: {
+      category: params.category || undefined,
+      tags: params.tags && params.tags.length > 0 ? params.tags : undefined,
+      artist: params.artistName
+    }
+  }
+}
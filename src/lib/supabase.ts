@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { WallpaperVariant } from '@/lib/wallpapers'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co'
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-anon-key'
@@ -10,6 +11,26 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 // Admin client for service operations (webhooks, etc.)
 export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
 
+// User-scoped client that acts as the holder of a wallet JWT, so RLS applies
+export function createUserClient(accessToken: string) {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  })
+}
+
+// Artist columns that are safe to expose publicly (email stays private)
+export const PUBLIC_ARTIST_COLUMNS = 'id, wallet_address, name, bio, avatar_url, created_at'
+
+// Artwork columns that are safe to expose publicly; the original's location and the
+// wallpaper crops are for buyers only
+export const PUBLIC_ARTWORK_COLUMNS = 'id, artist_id, chain_id, token_id, title, description, price_usd, max_editions, current_editions, royalty_bps, category, tags, image_url, thumbnail_url, metadata_url, status, publish_at, is_active, is_available, created_at, updated_at'
+
 // Database types
 export type Artist = {
   id: number
@@ -22,25 +43,47 @@ export type Artist = {
   updated_at: string
 }
 
+export type ArtworkStatus = 'draft' | 'scheduled' | 'published' | 'archived'
+
 export type Artwork = {
   id: number
   artist_id: number
+  chain_id: number // Chain the token lives on, see networks.json
   token_id?: number
+  token_pending_tx_hashes: string[] // Hashes createToken went out under, until the token is saved
   title: string
   description?: string
   price_usd: number
   max_editions: number
   current_editions: number
+  royalty_bps: number
   category?: string
   tags?: string[]
-  image_url: string
+  image_url: string // Watermarked preview
+  thumbnail_url?: string // Watermarked grid thumbnail
   metadata_url?: string
-  is_active: boolean
+  original_path?: string // Private storage path of the full-resolution upload
+  original_content_type?: string
+  original_size?: number
+  focal_x: number
+  focal_y: number
+  wallpaper_variants: WallpaperVariant[] // Filled in by the create_wallpapers job
+  status: ArtworkStatus
+  publish_at?: string | null
+  is_active: boolean // Derived: status = 'published'
+  is_available: boolean // Derived: current_editions < max_editions
   created_at: string
   updated_at: string
   artist?: Artist
 }
 
+// An artwork as public queries return it (PUBLIC_ARTWORK_COLUMNS)
+export type PublicArtwork = Omit<
+  Artwork,
+  | 'token_pending_tx_hashes' | 'original_path' | 'original_content_type' | 'original_size'
+  | 'focal_x' | 'focal_y' | 'wallpaper_variants'
+>
+
 export type Purchase = {
   id: number
   artwork_id: number
@@ -49,9 +92,14 @@ export type Purchase = {
   stripe_payment_intent_id: string
   stripe_session_id?: string
   amount_paid_usd: number
-  payment_status: 'pending' | 'completed' | 'failed' | 'refunded'
+  payment_status: 'pending' | 'completed' | 'failed' | 'refunded' | 'disputed' | 'oversold'
   nft_minted: boolean
   nft_token_id?: number
+  nft_tx_hash?: string
+  nft_mint_error?: string
+  nft_pending_tx_hashes: string[]
+  claim_token?: string
+  nft_claimed_at?: string
   download_sent: boolean
   created_at: string
   updated_at: string
@@ -64,7 +112,25 @@ export type DownloadToken = {
   token: string
   expires_at: string
   used_at?: string
+  revoked_at?: string
   download_count: number
   max_downloads: number
+  reissued: boolean // Issued from an order lookup link
+  created_at: string
+}
+
+export type DownloadEvent = {
+  id: number
+  download_token_id: number
+  purchase_id: number
+  variant: string
+  counted: boolean
+  resume_key?: string
+  ip_hash?: string
+  user_agent?: string
+  range_header?: string
+  bytes_served?: number
+  completed?: boolean
+  finished_at?: string
   created_at: string
 }
\ No newline at end of file
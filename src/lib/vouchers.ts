@@ -0,0 +1,41 @@
+// EIP-712 mint vouchers: signed by the server, redeemed by buyers on ImNotArtNFT.redeem
+
+export interface MintVoucher {
+  tokenId: string
+  recipient: string
+  amount: string
+  expiry: string // Unix seconds
+  nonce: string // The purchase ID, so each purchase can be redeemed once
+}
+
+export interface SignedMintVoucher {
+  voucher: MintVoucher
+  signature: string
+  contractAddress: string
+  chainId: number
+}
+
+export const VOUCHER_DOMAIN_NAME = 'ImNotArtNFT'
+export const VOUCHER_DOMAIN_VERSION = '1'
+
+export const MINT_VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'recipient', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+}
+
+export const REDEEM_ABI = [
+  "function redeem(tuple(uint256 tokenId, address recipient, uint256 amount, uint256 expiry, uint256 nonce) voucher, bytes signature) external"
+]
+
+/**
+ * Whether purchases are minted by buyers redeeming vouchers instead of by the platform wallet.
+ * Set NFT_MINT_MODE=voucher to enable; server only.
+ */
+export function isVoucherMintMode(): boolean {
+  return process.env.NFT_MINT_MODE === 'voucher'
+}
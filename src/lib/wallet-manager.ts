@@ -1,11 +1,45 @@
 import { EventEmitter } from 'events'
 import { ethers } from 'ethers'
+import { findNetwork, getWalletChainIds } from '@/lib/networks'
+
+// EIP-1193 provider as injected by browser wallets
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<any>
+  on?(event: string, listener: (...args: any[]) => void): void
+  removeListener?(event: string, listener: (...args: any[]) => void): void
+}
+
+// Wallet identity announced through EIP-6963
+export interface WalletProviderInfo {
+  uuid: string
+  name: string
+  icon: string
+  rdns: string
+}
+
+interface EIP6963ProviderDetail {
+  info: WalletProviderInfo
+  provider: EIP1193Provider
+}
+
+interface EIP6963AnnounceProviderEvent extends Event {
+  detail: EIP6963ProviderDetail
+}
+
+// Identity used for a bare window.ethereum when no wallet announces itself
+const LEGACY_INJECTED_WALLET: WalletProviderInfo = {
+  uuid: 'injected',
+  name: 'Browser Wallet',
+  icon: '',
+  rdns: 'injected'
+}
 
 export interface WalletState {
   address: string | null
   chainId: number | null
   provider: ethers.BrowserProvider | null
   signer: ethers.JsonRpcSigner | null
+  wallet: WalletProviderInfo | null
   connected: boolean
   connecting: boolean
   error: string | null
@@ -20,20 +54,26 @@ export interface Connection {
 
 type StateCallback = (state: WalletState) => void
 
+/**
+ * Whether the user declined a wallet prompt (EIP-1193 code 4001 or ethers' ACTION_REJECTED)
+ */
+export function isUserRejection(error: any): boolean {
+  return error?.code === 4001 || error?.code === 'ACTION_REJECTED'
+}
+
 export class WalletStateManager extends EventEmitter {
   private connectionState: WalletState
   private reconnectAttempts: number = 0
   private stateSubscribers: Set<StateCallback> = new Set()
   private reconnectTimer: NodeJS.Timeout | null = null
+  private discoveredWallets: Map<string, EIP6963ProviderDetail> = new Map()
+  private activeWallet: EIP6963ProviderDetail | null = null
   private persistenceKey = 'imnotart_wallet_connection'
   private readonly MAX_RECONNECT_ATTEMPTS = 5
   private readonly RECONNECT_DELAY = 2000
   private readonly SESSION_TIMEOUT = 24 * 60 * 60 * 1000 // 24 hours
-  private readonly SUPPORTED_CHAINS = [
-    1, // Ethereum Mainnet
-    8453, // Base Mainnet
-    84532, // Base Sepolia
-  ]
+  private readonly DISCOVERY_TIMEOUT = 500
+  private readonly SUPPORTED_CHAINS = getWalletChainIds() // From networks.json, default chain first
 
   constructor() {
     super()
@@ -43,26 +83,107 @@ export class WalletStateManager extends EventEmitter {
       chainId: null,
       provider: null,
       signer: null,
+      wallet: null,
       connected: false,
       connecting: false,
       error: null
     }
 
-    // Set up event listeners
-    this.setupEventListeners()
-    
     // Attempt to restore connection on initialization
     if (typeof window !== 'undefined') {
+      this.discoverWallets()
       this.restoreConnectionState()
     }
   }
 
+  /**
+   * Listen for EIP-6963 wallet announcements and ask installed wallets to announce
+   */
+  private discoverWallets(): void {
+    window.addEventListener('eip6963:announceProvider', (event: Event) => {
+      const { info, provider } = (event as EIP6963AnnounceProviderEvent).detail
+      if (!info?.rdns || !provider) {
+        return
+      }
+
+      this.discoveredWallets.set(info.rdns, { info, provider })
+      this.emit('walletsChanged', this.getAvailableWallets())
+    })
+
+    window.dispatchEvent(new Event('eip6963:requestProvider'))
+  }
+
+  /**
+   * Wallets the user can choose from, falling back to a bare window.ethereum
+   */
+  getAvailableWallets(): WalletProviderInfo[] {
+    if (this.discoveredWallets.size > 0) {
+      return Array.from(this.discoveredWallets.values()).map(detail => detail.info)
+    }
+
+    if (typeof window !== 'undefined' && window.ethereum) {
+      return [LEGACY_INJECTED_WALLET]
+    }
+
+    return []
+  }
+
+  /**
+   * Resolve a wallet by rdns, defaulting to the active or only available wallet
+   */
+  private resolveWallet(rdns?: string): EIP6963ProviderDetail {
+    if (rdns) {
+      const discovered = this.discoveredWallets.get(rdns)
+      if (discovered) {
+        return discovered
+      }
+      if (rdns === LEGACY_INJECTED_WALLET.rdns && window.ethereum) {
+        return { info: LEGACY_INJECTED_WALLET, provider: window.ethereum }
+      }
+      throw new Error(`Wallet ${rdns} not found`)
+    }
+
+    if (this.activeWallet) {
+      return this.activeWallet
+    }
+
+    const [first] = Array.from(this.discoveredWallets.values())
+    if (first) {
+      return first
+    }
+
+    if (typeof window !== 'undefined' && window.ethereum) {
+      return { info: LEGACY_INJECTED_WALLET, provider: window.ethereum }
+    }
+
+    throw new Error('MetaMask or compatible wallet not found')
+  }
+
+  /**
+   * Wait briefly for a wallet to announce itself after page load
+   */
+  private async waitForWallet(rdns: string): Promise<EIP6963ProviderDetail | null> {
+    const deadline = Date.now() + this.DISCOVERY_TIMEOUT
+
+    while (Date.now() < deadline) {
+      try {
+        return this.resolveWallet(rdns)
+      } catch {
+        await this.delay(50)
+      }
+    }
+
+    return null
+  }
+
   /**
    * Connect wallet with retry logic
    */
-  async connectWalletWithRetry(): Promise<Connection> {
+  async connectWalletWithRetry(rdns?: string): Promise<Connection> {
     if (this.connectionState.connected && this.connectionState.address) {
-      return this.getCurrentConnection()!
+      if (!rdns || rdns === this.activeWallet?.info.rdns) {
+        return this.getCurrentConnection()!
+      }
     }
 
     if (this.connectionState.connecting) {
@@ -84,7 +205,7 @@ export class WalletStateManager extends EventEmitter {
     this.updateState({ connecting: true, error: null })
     
     try {
-      const connection = await this.connectWallet()
+      const connection = await this.connectWallet(rdns)
       await this.persistConnectionState()
       return connection
     } catch (error: any) {
@@ -93,10 +214,15 @@ export class WalletStateManager extends EventEmitter {
         error: error.message 
       })
       
+      // Don't keep prompting a user who rejected the request
+      if (isUserRejection(error)) {
+        throw error
+      }
+      
       if (this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
         this.reconnectAttempts++
         await this.delay(this.RECONNECT_DELAY * this.reconnectAttempts)
-        return this.connectWalletWithRetry()
+        return this.connectWalletWithRetry(rdns)
       }
       
       throw error
@@ -106,14 +232,16 @@ export class WalletStateManager extends EventEmitter {
   /**
    * Connect wallet
    */
-  private async connectWallet(): Promise<Connection> {
-    if (typeof window === 'undefined' || !window.ethereum) {
+  private async connectWallet(rdns?: string): Promise<Connection> {
+    if (typeof window === 'undefined') {
       throw new Error('MetaMask or compatible wallet not found')
     }
 
     try {
+      const wallet = this.resolveWallet(rdns)
+
       // Request account access
-      const accounts = await window.ethereum.request({ 
+      const accounts = await wallet.provider.request({ 
         method: 'eth_requestAccounts' 
       })
       
@@ -121,8 +249,15 @@ export class WalletStateManager extends EventEmitter {
         throw new Error('No accounts found')
       }
 
+      // Listen to the chosen wallet only
+      if (this.activeWallet?.provider !== wallet.provider) {
+        this.removeEventListeners()
+        this.activeWallet = wallet
+        this.setupEventListeners()
+      }
+
       // Create provider and signer
-      const provider = new ethers.BrowserProvider(window.ethereum)
+      const provider = new ethers.BrowserProvider(wallet.provider)
       const signer = await provider.getSigner()
       const address = await signer.getAddress()
       const network = await provider.getNetwork()
@@ -131,7 +266,7 @@ export class WalletStateManager extends EventEmitter {
       // Validate chain
       if (!this.SUPPORTED_CHAINS.includes(chainId)) {
         await this.switchToSupportedChain()
-        return this.connectWallet() // Retry after chain switch
+        return this.connectWallet(rdns) // Retry after chain switch
       }
 
       // Update state
@@ -140,6 +275,7 @@ export class WalletStateManager extends EventEmitter {
         chainId,
         provider,
         signer,
+        wallet: wallet.info,
         connected: true,
         connecting: false,
         error: null
@@ -148,7 +284,7 @@ export class WalletStateManager extends EventEmitter {
       // Reset reconnect attempts on successful connection
       this.reconnectAttempts = 0
       
-      this.emit('connected', { address, chainId })
+      this.emit('connected', { address, chainId, wallet: wallet.info })
       
       return { address, chainId, provider, signer }
     } catch (error: any) {
@@ -161,11 +297,21 @@ export class WalletStateManager extends EventEmitter {
    * Switch to supported chain
    */
   private async switchToSupportedChain(): Promise<void> {
-    const targetChainId = this.SUPPORTED_CHAINS[0] // Default to first supported chain
+    await this.switchChain(this.SUPPORTED_CHAINS[0]) // Default to first supported chain
+  }
+
+  /**
+   * Switch the wallet to a specific supported chain, adding it if needed
+   */
+  async switchChain(targetChainId: number): Promise<void> {
+    if (!this.SUPPORTED_CHAINS.includes(targetChainId)) {
+      throw new Error(`Unsupported chain: ${targetChainId}`)
+    }
+
     const chainIdHex = `0x${targetChainId.toString(16)}`
     
     try {
-      await window.ethereum.request({
+      await this.resolveWallet().provider.request({
         method: 'wallet_switchEthereumChain',
         params: [{ chainId: chainIdHex }]
       })
@@ -179,41 +325,31 @@ export class WalletStateManager extends EventEmitter {
     }
   }
 
+  /**
+   * Chains the wallet may connect on
+   */
+  getSupportedChains(): number[] {
+    return [...this.SUPPORTED_CHAINS]
+  }
+
   /**
    * Add chain to wallet
    */
   private async addChain(chainId: number): Promise<void> {
-    const chainConfigs: Record<number, any> = {
-      8453: {
-        chainId: '0x2105',
-        chainName: 'Base',
-        nativeCurrency: {
-          name: 'Ether',
-          symbol: 'ETH',
-          decimals: 18
-        },
-        rpcUrls: ['https://mainnet.base.org'],
-        blockExplorerUrls: ['https://basescan.org']
-      },
-      84532: {
-        chainId: '0x14a34',
-        chainName: 'Base Sepolia',
-        nativeCurrency: {
-          name: 'Ether',
-          symbol: 'ETH',
-          decimals: 18
-        },
-        rpcUrls: ['https://sepolia.base.org'],
-        blockExplorerUrls: ['https://sepolia.basescan.org']
-      }
+    const network = findNetwork(chainId)
+    if (!network) {
+      throw new Error(`Chain ${chainId} configuration not found`)
     }
 
-    const config = chainConfigs[chainId]
-    if (!config) {
-      throw new Error(`Chain ${chainId} configuration not found`)
+    const config = {
+      chainId: `0x${chainId.toString(16)}`,
+      chainName: network.name,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: [network.rpcUrl],
+      blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
     }
 
-    await window.ethereum.request({
+    await this.resolveWallet().provider.request({
       method: 'wallet_addEthereumChain',
       params: [config]
     })
@@ -230,6 +366,7 @@ export class WalletStateManager extends EventEmitter {
     const stateToSave = {
       address: this.connectionState.address,
       chainId: this.connectionState.chainId,
+      walletRdns: this.activeWallet?.info.rdns,
       timestamp: Date.now()
     }
 
@@ -267,12 +404,17 @@ export class WalletStateManager extends EventEmitter {
         return false
       }
 
+      // Reconnect to the same wallet; older saved state predates discovery
+      const wallet = parsed.walletRdns
+        ? await this.waitForWallet(parsed.walletRdns)
+        : window.ethereum && { info: LEGACY_INJECTED_WALLET, provider: window.ethereum }
+
       // Check if wallet is still connected
-      if (!window.ethereum) {
+      if (!wallet) {
         return false
       }
 
-      const accounts = await window.ethereum.request({ 
+      const accounts = await wallet.provider.request({ 
         method: 'eth_accounts' 
       })
       
@@ -287,7 +429,7 @@ export class WalletStateManager extends EventEmitter {
       }
 
       // Reconnect
-      await this.connectWallet()
+      await this.connectWallet(wallet.info.rdns)
       return true
     } catch (error) {
       console.warn('Failed to restore wallet state:', error)
@@ -304,6 +446,7 @@ export class WalletStateManager extends EventEmitter {
       chainId: null,
       provider: null,
       signer: null,
+      wallet: null,
       connected: false,
       connecting: false,
       error: null
@@ -347,42 +490,62 @@ export class WalletStateManager extends EventEmitter {
   }
 
   /**
-   * Set up event listeners
+   * Set up event listeners on the active wallet
    */
   private setupEventListeners(): void {
-    if (typeof window === 'undefined' || !window.ethereum) {
+    const provider = this.activeWallet?.provider
+    if (!provider?.on) {
       return
     }
 
-    // Account change
-    window.ethereum.on('accountsChanged', async (accounts: string[]) => {
-      if (accounts.length === 0) {
-        await this.handleDisconnection()
-      } else if (accounts[0] !== this.connectionState.address) {
-        // Account switched, reconnect
-        await this.connectWallet()
-      }
-    })
+    provider.on('accountsChanged', this.handleAccountsChanged)
+    provider.on('chainChanged', this.handleChainChanged)
+    provider.on('disconnect', this.handleProviderDisconnect)
+  }
 
-    // Chain change
-    window.ethereum.on('chainChanged', (chainId: string) => {
-      const newChainId = parseInt(chainId, 16)
-      
-      if (!this.SUPPORTED_CHAINS.includes(newChainId)) {
-        this.updateState({ 
-          error: `Unsupported chain: ${newChainId}` 
-        })
-        this.emit('chainError', { chainId: newChainId })
-      } else {
-        // Reconnect with new chain
-        this.connectWallet()
-      }
-    })
+  /**
+   * Remove event listeners from the active wallet
+   */
+  private removeEventListeners(): void {
+    const provider = this.activeWallet?.provider
+    if (!provider?.removeListener) {
+      return
+    }
 
-    // Disconnect
-    window.ethereum.on('disconnect', () => {
-      this.handleDisconnection()
-    })
+    provider.removeListener('accountsChanged', this.handleAccountsChanged)
+    provider.removeListener('chainChanged', this.handleChainChanged)
+    provider.removeListener('disconnect', this.handleProviderDisconnect)
+  }
+
+  // Account change
+  private handleAccountsChanged = async (accounts: string[]) => {
+    if (accounts.length === 0) {
+      await this.handleDisconnection()
+    } else if (accounts[0] !== this.connectionState.address) {
+      // Account switched, reconnect
+      await this.connectWallet()
+    }
+  }
+
+  // Chain change
+  private handleChainChanged = (chainId: string) => {
+    const newChainId = parseInt(chainId, 16)
+    
+    if (!this.SUPPORTED_CHAINS.includes(newChainId)) {
+      this.updateState({ 
+        chainId: newChainId,
+        error: `Unsupported chain: ${newChainId}` 
+      })
+      this.emit('chainError', { chainId: newChainId })
+    } else {
+      // Reconnect with new chain
+      this.connectWallet()
+    }
+  }
+
+  // Disconnect
+  private handleProviderDisconnect = () => {
+    this.handleDisconnection()
   }
 
   /**
@@ -447,8 +610,12 @@ export class WalletStateManager extends EventEmitter {
    * Disconnect wallet
    */
   async disconnect(): Promise<void> {
-    await this.handleDisconnection()
     this.reconnectAttempts = this.MAX_RECONNECT_ATTEMPTS // Prevent auto-reconnect
+    await this.handleDisconnection()
+
+    // Let the next connect pick any wallet again
+    this.removeEventListeners()
+    this.activeWallet = null
   }
 
   /**
@@ -459,6 +626,16 @@ export class WalletStateManager extends EventEmitter {
   }
 }
 
+// Shared browser instance so every component sees the same connection
+let walletManager: WalletStateManager | null = null
+
+export function getWalletManager(): WalletStateManager {
+  if (!walletManager) {
+    walletManager = new WalletStateManager()
+  }
+  return walletManager
+}
+
 // Declare ethereum on window
 declare global {
   interface Window {
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { cropRegion, findWallpaperTarget, parseFocalCoordinate, DEFAULT_FOCAL_POINT } from '@/lib/wallpapers'
+
+const desktop = findWallpaperTarget('desktop')! // 16:9
+const phone = findWallpaperTarget('phone')! // 1290x2796
+
+describe('cropRegion', () => {
+  it('takes the full height of a square image for a landscape target', () => {
+    expect(cropRegion(1000, 1000, desktop, DEFAULT_FOCAL_POINT)).toEqual({
+      left: 0,
+      top: 219,
+      width: 1000,
+      height: 563
+    })
+  })
+
+  it('takes the full height of a wide image, centred on the focal point', () => {
+    expect(cropRegion(4000, 1000, desktop, { x: 0.5, y: 0.5 })).toEqual({
+      left: 1111,
+      top: 0,
+      width: 1778,
+      height: 1000
+    })
+  })
+
+  it('keeps the crop inside the image when the focal point is near an edge', () => {
+    expect(cropRegion(4000, 1000, desktop, { x: 0, y: 0.5 }).left).toBe(0)
+    expect(cropRegion(4000, 1000, desktop, { x: 1, y: 0.5 }).left).toBe(4000 - 1778)
+    expect(cropRegion(1000, 1000, phone, { x: 0.5, y: 1 }).top).toBe(0)
+    expect(cropRegion(1000, 1000, phone, { x: 0.95, y: 0.5 })).toEqual({
+      left: 1000 - 461,
+      top: 0,
+      width: 461,
+      height: 1000
+    })
+  })
+
+  it('uses the whole image when it already has the target aspect ratio', () => {
+    expect(cropRegion(2560, 1440, desktop, { x: 0.2, y: 0.8 })).toEqual({
+      left: 0,
+      top: 0,
+      width: 2560,
+      height: 1440
+    })
+  })
+})
+
+describe('parseFocalCoordinate', () => {
+  it('accepts fractions from 0 to 1', () => {
+    expect(parseFocalCoordinate(0)).toBe(0)
+    expect(parseFocalCoordinate('0.25')).toBe(0.25)
+    expect(parseFocalCoordinate(1)).toBe(1)
+  })
+
+  it.each([-0.1, 1.5, 'left', '', null, undefined])('rejects %j', value => {
+    expect(parseFocalCoordinate(value)).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+// Device-sized wallpaper crops of an artwork's original, generated after upload by the
+// create_wallpapers job and stored privately next to the original.
+
+import sharp from 'sharp'
+
+export interface WallpaperTarget {
+  key: string
+  label: string
+  width: number
+  height: number
+}
+
+export const WALLPAPER_TARGETS: WallpaperTarget[] = [
+  { key: 'phone', label: 'Phone (portrait)', width: 1290, height: 2796 },
+  { key: 'tablet', label: 'Tablet', width: 2048, height: 2732 },
+  { key: 'desktop', label: 'Desktop 16:9', width: 2560, height: 1440 },
+  { key: 'ultrawide', label: 'Ultrawide 21:9', width: 3440, height: 1440 },
+  { key: '4k', label: '4K UHD', width: 3840, height: 2160 }
+]
+
+// Stored on artworks.wallpaper_variants
+export interface WallpaperVariant {
+  key: string
+  path: string
+  width: number // Smaller than the target when the original is
+  height: number
+  size: number
+}
+
+// Fractions of the image's width and height, from the top left
+export interface FocalPoint {
+  x: number
+  y: number
+}
+
+export const DEFAULT_FOCAL_POINT: FocalPoint = { x: 0.5, y: 0.5 }
+
+const WALLPAPER_QUALITY = 90
+
+export function findWallpaperTarget(key: string): WallpaperTarget | undefined {
+  return WALLPAPER_TARGETS.find(target => target.key === key)
+}
+
+/**
+ * Parse a focal point coordinate, or null if it isn't a fraction between 0 and 1
+ */
+export function parseFocalCoordinate(value: unknown): number | null {
+  const coordinate = typeof value === 'number' ? value : parseFloat(String(value))
+  return coordinate >= 0 && coordinate <= 1 ? coordinate : null
+}
+
+/**
+ * Largest region of the target's aspect ratio, centred on the focal point as far as the edges allow
+ */
+export function cropRegion(width: number, height: number, target: WallpaperTarget, focal: FocalPoint) {
+  const aspect = target.width / target.height
+  const cropWidth = Math.min(width, Math.round(height * aspect))
+  const cropHeight = Math.min(height, Math.round(width / aspect))
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+
+  return {
+    left: clamp(Math.round(focal.x * width - cropWidth / 2), width - cropWidth),
+    top: clamp(Math.round(focal.y * height - cropHeight / 2), height - cropHeight),
+    width: cropWidth,
+    height: cropHeight
+  }
+}
+
+/**
+ * Crop the original to a target's aspect ratio around the focal point, then scale it down to the target
+ */
+export async function renderWallpaper(
+  input: Buffer,
+  target: WallpaperTarget,
+  focal: FocalPoint
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const metadata = await sharp(input).metadata()
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Could not read image dimensions')
+  }
+
+  // Crop in upright coordinates: EXIF orientations 5-8 are rotated 90 degrees
+  const rotated = (metadata.orientation || 1) >= 5
+  const width = rotated ? metadata.height : metadata.width
+  const height = rotated ? metadata.width : metadata.height
+
+  const { data, info } = await sharp(input)
+    .rotate()
+    .extract(cropRegion(width, height, target, focal))
+    .resize(target.width, target.height, { fit: 'cover', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: WALLPAPER_QUALITY, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true })
+
+  return { data, width: info.width, height: info.height }
+}
@@ -0,0 +1,74 @@
+// In-memory stand-in for supabaseAdmin in route tests. Every query is recorded, and
+// the test's `respond` decides what each one returns. Use it with
+// vi.mock('@/lib/supabase', () => import('@/test/fake-supabase')).
+
+import { vi } from 'vitest'
+
+export interface FakeQuery {
+  table: string
+  action: 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+  values?: any
+  filters: [string, ...any[]][] // eq, in, is, single... in call order
+}
+
+export interface FakeResult {
+  data?: any
+  error?: { message: string } | null
+  count?: number | null
+}
+
+const WRITE_ACTIONS = ['insert', 'update', 'upsert', 'delete']
+
+export const fakeDb = {
+  queries: [] as FakeQuery[],
+  respond: (_query: FakeQuery): FakeResult | undefined => undefined,
+  rpc: vi.fn(async (_name: string, _args?: Record<string, unknown>): Promise<FakeResult> => ({ data: null, error: null })),
+
+  reset() {
+    this.queries = []
+    this.respond = () => undefined
+    this.rpc.mockReset()
+    this.rpc.mockResolvedValue({ data: null, error: null })
+  },
+
+  // Recorded queries on a table, optionally of one kind
+  find(table: string, action?: FakeQuery['action']): FakeQuery[] {
+    return this.queries.filter(query => query.table === table && (!action || query.action === action))
+  }
+}
+
+// Value of the first filter of a kind on a column, e.g. filterValue(query, 'eq', 'id')
+export function filterValue(query: FakeQuery, kind: string, column: string): unknown {
+  return query.filters.find(([name, filterColumn]) => name === kind && filterColumn === column)?.[2]
+}
+
+function from(table: string) {
+  const query: FakeQuery = { table, action: 'select', filters: [] }
+  fakeDb.queries.push(query)
+
+  const builder: any = new Proxy({}, {
+    get(_target, property: string) {
+      if (property === 'then') {
+        const result = Promise.resolve().then(() => ({ data: null, error: null, ...fakeDb.respond(query) }))
+        return result.then.bind(result)
+      }
+
+      return (...args: any[]) => {
+        if (WRITE_ACTIONS.includes(property)) {
+          query.action = property as FakeQuery['action']
+          query.values = args[0]
+        } else if (property !== 'select') {
+          query.filters.push([property, ...args])
+        }
+        return builder
+      }
+    }
+  })
+
+  return builder
+}
+
+export const supabaseAdmin = {
+  from,
+  rpc: (name: string, args?: Record<string, unknown>) => fakeDb.rpc(name, args)
+}
@@ -4,7 +4,7 @@
 -- Artists table - stores artist wallet addresses and profile info
 CREATE TABLE artists (
     id SERIAL PRIMARY KEY,
-    wallet_address VARCHAR(42) UNIQUE NOT NULL,
+    wallet_address VARCHAR(42) UNIQUE NOT NULL CHECK (wallet_address = lower(wallet_address)),
     name VARCHAR(255),
     email VARCHAR(255),
     bio TEXT,
@@ -13,23 +13,47 @@ CREATE TABLE artists (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Full-text search document for artworks: title weighted over tags over description.
+-- Wrapped as IMMUTABLE so it can back a generated column.
+CREATE OR REPLACE FUNCTION artwork_search_document(title TEXT, description TEXT, tags TEXT[])
+RETURNS TSVECTOR AS $$
+    SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B')
+        || setweight(to_tsvector('english', coalesce(description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Artworks table - stores NFT wallpaper metadata
 CREATE TABLE artworks (
     id SERIAL PRIMARY KEY,
     artist_id INTEGER REFERENCES artists(id) ON DELETE CASCADE,
-    token_id INTEGER UNIQUE, -- Will be set after minting
+    chain_id INTEGER NOT NULL DEFAULT 84532, -- Chain the token is created on (see networks.json)
+    token_id INTEGER, -- Will be set after minting; unique per chain
+    token_pending_tx_hashes TEXT[] NOT NULL DEFAULT '{}', -- Hashes createToken went out under; checked before re-sending
     title VARCHAR(255) NOT NULL,
     description TEXT,
     price_usd DECIMAL(10,2) NOT NULL, -- Price in USD
     max_editions INTEGER NOT NULL DEFAULT 1,
     current_editions INTEGER NOT NULL DEFAULT 0,
+    royalty_bps INTEGER NOT NULL DEFAULT 1000 CHECK (royalty_bps BETWEEN 0 AND 1500), -- Artist royalty on resales, capped by the contract
     category VARCHAR(100),
     tags TEXT[], -- Array of tags
-    image_url TEXT NOT NULL, -- IPFS URL for the image
+    image_url TEXT NOT NULL, -- IPFS URL for the watermarked public preview, also the NFT metadata image
+    thumbnail_url TEXT, -- IPFS URL for the watermarked grid thumbnail
     metadata_url TEXT, -- IPFS URL for metadata JSON
-    is_active BOOLEAN DEFAULT true,
+    original_path TEXT, -- Full-resolution upload in the private artwork-originals bucket
+    original_content_type VARCHAR(100),
+    original_size BIGINT,
+    focal_x REAL NOT NULL DEFAULT 0.5 CHECK (focal_x BETWEEN 0 AND 1), -- Point wallpaper crops keep in frame, as fractions of width
+    focal_y REAL NOT NULL DEFAULT 0.5 CHECK (focal_y BETWEEN 0 AND 1), -- and height from the top left
+    wallpaper_variants JSONB NOT NULL DEFAULT '[]', -- Device crops stored beside the original: [{key, path, width, height, size}]
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'published', 'archived')),
+    publish_at TIMESTAMP WITH TIME ZONE, -- When a scheduled artwork goes live
+    is_active BOOLEAN GENERATED ALWAYS AS (status = 'published') STORED,
+    is_available BOOLEAN GENERATED ALWAYS AS (current_editions < max_editions) STORED,
+    search_vector TSVECTOR GENERATED ALWAYS AS (artwork_search_document(title, description, tags)) STORED,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (chain_id, token_id)
 );
 
 -- Purchases table - stores payment and purchase info
@@ -41,9 +65,14 @@ CREATE TABLE purchases (
     stripe_payment_intent_id VARCHAR(255) UNIQUE NOT NULL,
     stripe_session_id VARCHAR(255),
     amount_paid_usd DECIMAL(10,2) NOT NULL,
-    payment_status VARCHAR(50) DEFAULT 'pending', -- pending, completed, failed, refunded
+    payment_status VARCHAR(50) DEFAULT 'pending', -- pending, completed, failed, refunded, disputed, oversold (paid, no edition, refund failed)
     nft_minted BOOLEAN DEFAULT false,
     nft_token_id INTEGER,
+    nft_tx_hash VARCHAR(66),
+    nft_mint_error TEXT, -- Last failed mint attempt, cleared once minted
+    nft_pending_tx_hashes TEXT[] NOT NULL DEFAULT '{}', -- Hashes a mint went out under; checked before re-sending
+    claim_token VARCHAR(255) UNIQUE, -- Emailed to buyers who gave no wallet, to claim the NFT later
+    nft_claimed_at TIMESTAMP WITH TIME ZONE, -- When a wallet was attached through the claim link
     download_sent BOOLEAN DEFAULT false,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -56,8 +85,115 @@ CREATE TABLE download_tokens (
     token VARCHAR(255) UNIQUE NOT NULL,
     expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
     used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE, -- Set when the purchase is refunded or disputed
     download_count INTEGER DEFAULT 0,
     max_downloads INTEGER DEFAULT 3, -- Allow 3 downloads per purchase
+    reissued BOOLEAN NOT NULL DEFAULT false, -- Issued by the buyer from an order lookup link
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Order lookups table - magic links emailed to buyers who lost their download email
+CREATE TABLE order_lookups (
+    id SERIAL PRIMARY KEY,
+    token VARCHAR(255) UNIQUE NOT NULL,
+    buyer_email VARCHAR(255) NOT NULL, -- Lowercased
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Download events table - one row per download request, for artist and support history
+CREATE TABLE download_events (
+    id SERIAL PRIMARY KEY,
+    download_token_id INTEGER REFERENCES download_tokens(id) ON DELETE CASCADE,
+    purchase_id INTEGER REFERENCES purchases(id) ON DELETE CASCADE,
+    variant VARCHAR(20) NOT NULL, -- original, a wallpaper size key, or all (the zip)
+    counted BOOLEAN NOT NULL, -- False for resumed ranges, which don't use up a download
+    resume_key VARCHAR(64), -- ETag of a counted download; resuming it means sending this in If-Range
+    ip_hash VARCHAR(64), -- Keyed hash of the client IP; raw IPs aren't stored
+    user_agent TEXT,
+    range_header VARCHAR(100),
+    bytes_served BIGINT, -- Set once the response body ends
+    completed BOOLEAN, -- False when the client disconnected first
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Edition reservations table - time-boxed holds taken when checkout starts
+CREATE TABLE edition_reservations (
+    id SERIAL PRIMARY KEY,
+    artwork_id INTEGER REFERENCES artworks(id) ON DELETE CASCADE,
+    stripe_session_id VARCHAR(255) UNIQUE, -- Set once the Stripe session exists
+    buyer_email VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'converted', 'released')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Holds stop counting after this
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Jobs table - durable background work (minting, token creation, emails)
+CREATE TABLE jobs (
+    id BIGSERIAL PRIMARY KEY,
+    type VARCHAR(50) NOT NULL CHECK (type IN ('create_token', 'create_wallpapers', 'mint_nft', 'send_download_email', 'send_purchase_notice')),
+    payload JSONB NOT NULL DEFAULT '{}',
+    purchase_id INTEGER REFERENCES purchases(id) ON DELETE CASCADE,
+    dedupe_key VARCHAR(255) UNIQUE NOT NULL, -- One job per purchase (or artwork) and type
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 8,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- Not claimed before this (backoff)
+    locked_by VARCHAR(100), -- Worker holding the lease
+    locked_until TIMESTAMP WITH TIME ZONE, -- Lease expiry; expired leases are reclaimed
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Chain events table - contract events read by the indexer. Rows in the last
+-- CONFIRMATION_BLOCKS blocks are unconfirmed and rewritten each run, so reorgs drop them.
+CREATE TABLE chain_events (
+    id BIGSERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    batch_index INTEGER NOT NULL DEFAULT 0, -- Position within a TransferBatch; 0 otherwise
+    event_name VARCHAR(50) NOT NULL, -- TokenCreated, TokenMinted, VoucherRedeemed, TransferSingle, TransferBatch
+    token_id BIGINT,
+    from_address VARCHAR(42),
+    to_address VARCHAR(42), -- Buyer, voucher recipient or transfer receiver (lowercase)
+    amount NUMERIC(78, 0),
+    args JSONB NOT NULL DEFAULT '{}', -- All decoded event arguments
+    confirmed BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (chain_id, tx_hash, log_index, batch_index)
+);
+
+-- Chain checkpoints table - last confirmed block the indexer has fully read on each chain
+CREATE TABLE chain_checkpoints (
+    chain_id INTEGER PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66), -- Checked each run to catch reorgs deeper than the confirmation window
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Wallet leases table - the one process allowed to send from the hot wallet on
+-- each chain. Nonces are assigned in that process's memory, so two senders would collide.
+CREATE TABLE wallet_leases (
+    chain_id INTEGER NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL, -- Lowercase
+    holder TEXT NOT NULL,
+    locked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (chain_id, wallet_address)
+);
+
+-- Auth nonces table - single-use nonces for Sign-In With Ethereum
+CREATE TABLE auth_nonces (
+    nonce VARCHAR(64) PRIMARY KEY,
+    wallet_address VARCHAR(42), -- Set when the nonce is consumed
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -65,34 +201,119 @@ CREATE TABLE download_tokens (
 CREATE INDEX idx_artists_wallet ON artists(wallet_address);
 CREATE INDEX idx_artworks_artist ON artworks(artist_id);
 CREATE INDEX idx_artworks_active ON artworks(is_active);
+CREATE INDEX idx_artworks_scheduled ON artworks(publish_at) WHERE status = 'scheduled';
+CREATE INDEX idx_artworks_search ON artworks USING GIN(search_vector);
+CREATE INDEX idx_artworks_tags ON artworks USING GIN(tags);
+CREATE INDEX idx_artworks_category ON artworks(category);
+CREATE INDEX idx_artworks_price ON artworks(price_usd);
+
+-- Keyset pagination indexes: (sort key, id) for each browse order
+CREATE INDEX idx_artworks_published_created ON artworks(created_at DESC, id DESC) WHERE status = 'published';
+CREATE INDEX idx_artworks_published_price ON artworks(price_usd, id) WHERE status = 'published';
+CREATE INDEX idx_artworks_published_popular ON artworks(current_editions DESC, id DESC) WHERE status = 'published';
+CREATE INDEX idx_artworks_artist_created ON artworks(artist_id, created_at DESC, id DESC);
 CREATE INDEX idx_purchases_email ON purchases(buyer_email);
 CREATE INDEX idx_purchases_stripe ON purchases(stripe_payment_intent_id);
 CREATE INDEX idx_download_tokens_token ON download_tokens(token);
 CREATE INDEX idx_download_tokens_expires ON download_tokens(expires_at);
+CREATE INDEX idx_download_events_purchase ON download_events(purchase_id, created_at DESC);
+CREATE INDEX idx_download_events_resume ON download_events(download_token_id, resume_key) WHERE counted;
+CREATE INDEX idx_download_tokens_reissued ON download_tokens(purchase_id, created_at) WHERE reissued;
+CREATE INDEX idx_order_lookups_email ON order_lookups(buyer_email, created_at);
+CREATE INDEX idx_purchases_email_lower ON purchases(lower(buyer_email));
+CREATE INDEX idx_auth_nonces_expires ON auth_nonces(expires_at);
+CREATE INDEX idx_jobs_pending ON jobs(run_at) WHERE status = 'pending';
+CREATE INDEX idx_jobs_running ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX idx_jobs_dead ON jobs(updated_at DESC) WHERE status = 'dead';
+CREATE INDEX idx_jobs_purchase ON jobs(purchase_id);
+CREATE INDEX idx_edition_reservations_held ON edition_reservations(artwork_id, expires_at) WHERE status = 'held';
+CREATE INDEX idx_chain_events_block ON chain_events(chain_id, block_number);
+CREATE INDEX idx_chain_events_token ON chain_events(chain_id, event_name, token_id) WHERE confirmed;
 
 -- RLS (Row Level Security) policies
 ALTER TABLE artists ENABLE ROW LEVEL SECURITY;
 ALTER TABLE artworks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE purchases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE download_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE download_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_lookups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE edition_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_leases ENABLE ROW LEVEL SECURITY;
 
--- Artists can read/update their own data
-CREATE POLICY "Artists can view own data" ON artists FOR SELECT USING (auth.uid()::text = wallet_address);
-CREATE POLICY "Artists can update own data" ON artists FOR UPDATE USING (auth.uid()::text = wallet_address);
+-- Wallet of the caller. Wallet sessions mint JWTs whose subject is the
+-- lowercase wallet address, which auth.uid() cannot read (it casts to uuid).
+CREATE OR REPLACE FUNCTION requesting_wallet()
+RETURNS TEXT AS $$
+    SELECT lower(NULLIF(current_setting('request.jwt.claims', true)::json ->> 'sub', ''));
+$$ LANGUAGE sql STABLE;
 
--- Public can view active artworks
-CREATE POLICY "Public can view active artworks" ON artworks FOR SELECT USING (is_active = true);
+-- Artists can create/read/update their own data
+CREATE POLICY "Artists can view own data" ON artists FOR SELECT USING (requesting_wallet() = wallet_address);
+CREATE POLICY "Artists can create own profile" ON artists FOR INSERT WITH CHECK (requesting_wallet() = wallet_address);
+CREATE POLICY "Artists can update own data" ON artists FOR UPDATE USING (requesting_wallet() = wallet_address);
 
--- Artists can manage their own artworks
-CREATE POLICY "Artists can manage own artworks" ON artworks FOR ALL USING (
-    EXISTS (SELECT 1 FROM artists WHERE artists.id = artworks.artist_id AND artists.wallet_address = auth.uid()::text)
+-- Public can view published artworks, but not where the original and its crops are kept.
+-- Signed-in wallets get the same columns; artists read their own full rows from own_artworks.
+CREATE POLICY "Public can view published artworks" ON artworks FOR SELECT USING (status = 'published');
+REVOKE SELECT ON artworks FROM anon, authenticated;
+GRANT SELECT (id, artist_id, chain_id, token_id, title, description, price_usd, max_editions, current_editions, royalty_bps, category, tags, image_url, thumbnail_url, metadata_url, status, publish_at, is_active, is_available, search_vector, created_at, updated_at) ON artworks TO anon, authenticated;
+
+-- Artists can manage their own artworks. Updates are limited to the columns the edit
+-- route validates; files, editions, tokens and chains are only written by the service role.
+CREATE POLICY "Artists can view own artworks" ON artworks FOR SELECT USING (
+    EXISTS (SELECT 1 FROM artists WHERE artists.id = artworks.artist_id AND artists.wallet_address = requesting_wallet())
+);
+CREATE POLICY "Artists can create own artworks" ON artworks FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM artists WHERE artists.id = artworks.artist_id AND artists.wallet_address = requesting_wallet())
+);
+CREATE POLICY "Artists can update own artworks" ON artworks FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM artists WHERE artists.id = artworks.artist_id AND artists.wallet_address = requesting_wallet())
+);
+CREATE POLICY "Artists can delete own artworks" ON artworks FOR DELETE USING (
+    EXISTS (SELECT 1 FROM artists WHERE artists.id = artworks.artist_id AND artists.wallet_address = requesting_wallet())
 );
+REVOKE UPDATE ON artworks FROM anon, authenticated;
+GRANT UPDATE (title, description, price_usd, max_editions, royalty_bps, category, tags, status, publish_at, metadata_url, updated_at) ON artworks TO authenticated;
+
+-- An artist's own artworks with every column, including the private file fields the
+-- column grants above hide. Runs as the view owner, so it filters to the caller itself.
+CREATE OR REPLACE VIEW own_artworks AS
+SELECT artworks.*
+FROM artworks
+JOIN artists ON artists.id = artworks.artist_id
+WHERE artists.wallet_address = requesting_wallet();
+REVOKE ALL ON own_artworks FROM anon, authenticated;
+GRANT SELECT ON own_artworks TO authenticated;
 
 -- Service role can access all purchases (for webhook processing)
 CREATE POLICY "Service can manage purchases" ON purchases FOR ALL USING (auth.role() = 'service_role');
 
 -- Service role can manage download tokens
 CREATE POLICY "Service can manage download tokens" ON download_tokens FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service can manage download events" ON download_events FOR ALL USING (auth.role() = 'service_role');
+
+-- Service role issues order lookup links
+CREATE POLICY "Service can manage order lookups" ON order_lookups FOR ALL USING (auth.role() = 'service_role');
+
+-- Service role manages SIWE nonces
+CREATE POLICY "Service can manage auth nonces" ON auth_nonces FOR ALL USING (auth.role() = 'service_role');
+
+-- Service role manages edition reservations (checkout and webhook)
+CREATE POLICY "Service can manage edition reservations" ON edition_reservations FOR ALL USING (auth.role() = 'service_role');
+
+-- Service role runs the job queue
+CREATE POLICY "Service can manage jobs" ON jobs FOR ALL USING (auth.role() = 'service_role');
+
+-- Service role runs the chain indexer
+CREATE POLICY "Service can manage chain events" ON chain_events FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service can manage chain checkpoints" ON chain_checkpoints FOR ALL USING (auth.role() = 'service_role');
+
+-- Service role sends contract transactions
+CREATE POLICY "Service can manage wallet leases" ON wallet_leases FOR ALL USING (auth.role() = 'service_role');
 
 -- Function to safely increment artwork editions
 CREATE OR REPLACE FUNCTION increment_artwork_editions(artwork_id INTEGER)
@@ -104,4 +325,409 @@ BEGIN
     WHERE id = artwork_id 
     AND current_editions < max_editions;
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to return a sold edition after a refund or lost dispute
+CREATE OR REPLACE FUNCTION release_artwork_edition(p_artwork_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE artworks
+    SET current_editions = current_editions - 1,
+        updated_at = NOW()
+    WHERE id = p_artwork_id
+    AND current_editions > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the Stripe webhook (service role) may return editions
+REVOKE EXECUTE ON FUNCTION release_artwork_edition(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Function to hold one edition for a checkout. Sold editions plus unexpired
+-- holds may not exceed max_editions; returns NULL when nothing is left.
+CREATE OR REPLACE FUNCTION reserve_artwork_edition(p_artwork_id INTEGER, p_buyer_email TEXT, p_hold_seconds INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    artwork_row artworks%ROWTYPE;
+    held_count INTEGER;
+    new_reservation_id INTEGER;
+BEGIN
+    -- Lock the artwork so concurrent checkouts are counted one at a time
+    SELECT * INTO artwork_row FROM artworks WHERE id = p_artwork_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT count(*) INTO held_count
+    FROM edition_reservations
+    WHERE artwork_id = p_artwork_id
+    AND status = 'held'
+    AND expires_at > NOW();
+
+    IF artwork_row.current_editions + held_count >= artwork_row.max_editions THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO edition_reservations (artwork_id, buyer_email, expires_at)
+    VALUES (p_artwork_id, p_buyer_email, NOW() + make_interval(secs => p_hold_seconds))
+    RETURNING id INTO new_reservation_id;
+
+    RETURN new_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only checkout (service role) may hold editions
+REVOKE EXECUTE ON FUNCTION reserve_artwork_edition(INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Function to turn a paid checkout's hold into a sold edition. A checkout whose
+-- hold lapsed still gets an edition if one is free; returns FALSE when none is.
+CREATE OR REPLACE FUNCTION claim_reserved_edition(p_stripe_session_id TEXT, p_artwork_id INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+    artwork_row artworks%ROWTYPE;
+    reservation edition_reservations%ROWTYPE;
+    other_holds INTEGER;
+BEGIN
+    SELECT * INTO artwork_row FROM artworks WHERE id = p_artwork_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT * INTO reservation
+    FROM edition_reservations
+    WHERE stripe_session_id = p_stripe_session_id;
+
+    -- Webhook retries must not sell a second edition
+    IF reservation.status = 'converted' THEN
+        RETURN TRUE;
+    END IF;
+
+    -- Unexpired holds of other checkouts keep their editions
+    SELECT count(*) INTO other_holds
+    FROM edition_reservations
+    WHERE artwork_id = p_artwork_id
+    AND status = 'held'
+    AND expires_at > NOW()
+    AND stripe_session_id IS DISTINCT FROM p_stripe_session_id;
+
+    IF artwork_row.current_editions + other_holds >= artwork_row.max_editions THEN
+        UPDATE edition_reservations
+        SET status = 'released', updated_at = NOW()
+        WHERE id = reservation.id AND status = 'held';
+        RETURN FALSE;
+    END IF;
+
+    UPDATE artworks
+    SET current_editions = current_editions + 1,
+        updated_at = NOW()
+    WHERE id = p_artwork_id;
+
+    UPDATE edition_reservations
+    SET status = 'converted', updated_at = NOW()
+    WHERE id = reservation.id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the Stripe webhook (service role) may sell editions
+REVOKE EXECUTE ON FUNCTION claim_reserved_edition(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Function to check and use up a download in one statement, so parallel requests
+-- can't pass max_downloads, and log it. A resumed range (p_counted FALSE) is only
+-- free when p_resume_key names a counted download of the same variant on this
+-- token from the last p_resume_window_seconds. Returns the event ID, or NULL when refused.
+CREATE OR REPLACE FUNCTION record_download(
+    p_token_id INTEGER,
+    p_counted BOOLEAN,
+    p_variant TEXT,
+    p_resume_key TEXT,
+    p_resume_window_seconds INTEGER,
+    p_ip_hash TEXT,
+    p_user_agent TEXT,
+    p_range_header TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    token_row download_tokens%ROWTYPE;
+    new_event_id INTEGER;
+BEGIN
+    IF p_counted THEN
+        UPDATE download_tokens
+        SET download_count = download_count + 1,
+            used_at = COALESCE(used_at, NOW())
+        WHERE id = p_token_id
+        AND download_count < max_downloads
+        AND revoked_at IS NULL
+        AND expires_at > NOW()
+        RETURNING * INTO token_row;
+    ELSE
+        SELECT * INTO token_row
+        FROM download_tokens
+        WHERE id = p_token_id
+        AND revoked_at IS NULL
+        AND expires_at > NOW()
+        AND EXISTS (
+            SELECT 1 FROM download_events
+            WHERE download_token_id = p_token_id
+            AND counted
+            AND variant = p_variant
+            AND resume_key = p_resume_key
+            AND created_at > NOW() - make_interval(secs => p_resume_window_seconds)
+        );
+    END IF;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO download_events (download_token_id, purchase_id, variant, counted, resume_key, ip_hash, user_agent, range_header)
+    VALUES (p_token_id, token_row.purchase_id, p_variant, p_counted, p_resume_key, p_ip_hash, p_user_agent, p_range_header)
+    RETURNING id INTO new_event_id;
+
+    RETURN new_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the download route (service role) may use up downloads
+REVOKE EXECUTE ON FUNCTION record_download(INTEGER, BOOLEAN, TEXT, TEXT, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function to issue an order lookup link unless the email has had p_max_per_hour
+-- in the last hour. Locks on the email so parallel requests are counted one at a time.
+CREATE OR REPLACE FUNCTION create_order_lookup(
+    p_buyer_email TEXT,
+    p_token TEXT,
+    p_ttl_seconds INTEGER,
+    p_max_per_hour INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    recent_count INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('order_lookup:' || lower(p_buyer_email)));
+
+    SELECT count(*) INTO recent_count
+    FROM order_lookups
+    WHERE buyer_email = lower(p_buyer_email)
+    AND created_at > NOW() - INTERVAL '1 hour';
+
+    IF recent_count >= p_max_per_hour THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO order_lookups (token, buyer_email, expires_at)
+    VALUES (p_token, lower(p_buyer_email), NOW() + make_interval(secs => p_ttl_seconds));
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to issue a fresh download token for a completed purchase, unless the
+-- purchase or its buyer's email has had too many reissues in the last day.
+CREATE OR REPLACE FUNCTION reissue_download_token(
+    p_purchase_id INTEGER,
+    p_token TEXT,
+    p_ttl_seconds INTEGER,
+    p_max_per_purchase INTEGER,
+    p_max_per_email INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    purchase_row purchases%ROWTYPE;
+    purchase_count INTEGER;
+    email_count INTEGER;
+BEGIN
+    SELECT * INTO purchase_row FROM purchases WHERE id = p_purchase_id AND payment_status = 'completed';
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('reissue:' || lower(purchase_row.buyer_email)));
+
+    SELECT
+        count(*) FILTER (WHERE t.purchase_id = p_purchase_id),
+        count(*)
+    INTO purchase_count, email_count
+    FROM download_tokens t
+    JOIN purchases p ON p.id = t.purchase_id
+    WHERE lower(p.buyer_email) = lower(purchase_row.buyer_email)
+    AND t.reissued
+    AND t.created_at > NOW() - INTERVAL '1 day';
+
+    IF purchase_count >= p_max_per_purchase OR email_count >= p_max_per_email THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO download_tokens (purchase_id, token, expires_at, reissued)
+    VALUES (p_purchase_id, p_token, NOW() + make_interval(secs => p_ttl_seconds), true);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_order_lookup(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reissue_download_token(INTEGER, TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Function to lease due jobs to a worker. Jobs whose lease expired (the worker
+-- died mid-run) are picked up again; SKIP LOCKED keeps workers from colliding.
+CREATE OR REPLACE FUNCTION claim_jobs(p_worker TEXT, p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF jobs AS $$
+    UPDATE jobs
+    SET status = 'running',
+        locked_by = p_worker,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id IN (
+        SELECT id FROM jobs
+        WHERE (status = 'pending' AND run_at <= NOW())
+        OR (status = 'running' AND locked_until < NOW())
+        ORDER BY run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Function to take or renew the lease on a hot wallet. Succeeds when the lease is
+-- free, expired or already held by p_holder.
+CREATE OR REPLACE FUNCTION acquire_wallet_lease(p_chain_id INTEGER, p_wallet_address TEXT, p_holder TEXT, p_lease_seconds INTEGER)
+RETURNS BOOLEAN AS $$
+    WITH taken AS (
+        INSERT INTO wallet_leases (chain_id, wallet_address, holder, locked_until)
+        VALUES (p_chain_id, p_wallet_address, p_holder, NOW() + make_interval(secs => p_lease_seconds))
+        ON CONFLICT (chain_id, wallet_address) DO UPDATE
+        SET holder = EXCLUDED.holder, locked_until = EXCLUDED.locked_until
+        WHERE wallet_leases.holder = EXCLUDED.holder OR wallet_leases.locked_until < NOW()
+        RETURNING 1
+    )
+    SELECT EXISTS (SELECT 1 FROM taken);
+$$ LANGUAGE sql;
+
+-- Function to give up a wallet lease early so the next run can send straight away
+CREATE OR REPLACE FUNCTION release_wallet_lease(p_chain_id INTEGER, p_wallet_address TEXT, p_holder TEXT)
+RETURNS VOID AS $$
+    DELETE FROM wallet_leases
+    WHERE chain_id = p_chain_id AND wallet_address = p_wallet_address AND holder = p_holder;
+$$ LANGUAGE sql;
+
+-- Function to publish scheduled artworks whose time has come.
+-- Called by /api/cron/publish-scheduled; can also run from pg_cron.
+CREATE OR REPLACE FUNCTION publish_due_artworks()
+RETURNS INTEGER AS $$
+DECLARE
+    published_count INTEGER;
+BEGIN
+    UPDATE artworks
+    SET status = 'published',
+        updated_at = NOW()
+    WHERE status = 'scheduled'
+    AND publish_at <= NOW();
+
+    GET DIAGNOSTICS published_count = ROW_COUNT;
+    RETURN published_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the cron route (service role) may publish
+REVOKE EXECUTE ON FUNCTION publish_due_artworks() FROM PUBLIC, anon, authenticated;
+
+-- Function to swap the indexer's stored events for a block range with a fresh read, in
+-- one transaction so a failed run never leaves the range empty. A NULL p_to_block
+-- clears everything from p_from_block on. Returns how many stored events the fresh
+-- read no longer has, i.e. were reorged out.
+CREATE OR REPLACE FUNCTION replace_chain_events(p_chain_id INTEGER, p_from_block BIGINT, p_to_block BIGINT, p_events JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    reorged_count INTEGER;
+BEGIN
+    WITH removed AS (
+        DELETE FROM chain_events
+        WHERE chain_id = p_chain_id
+        AND block_number >= p_from_block
+        AND (p_to_block IS NULL OR block_number <= p_to_block)
+        RETURNING block_hash, tx_hash, log_index, batch_index
+    )
+    SELECT COUNT(*) INTO reorged_count
+    FROM removed r
+    WHERE NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_events) AS e(block_hash TEXT, tx_hash TEXT, log_index INTEGER, batch_index INTEGER)
+        WHERE e.block_hash = r.block_hash AND e.tx_hash = r.tx_hash
+        AND e.log_index = r.log_index AND e.batch_index = r.batch_index
+    );
+
+    INSERT INTO chain_events (chain_id, block_number, block_hash, tx_hash, log_index, batch_index, event_name, token_id, from_address, to_address, amount, args, confirmed)
+    SELECT chain_id, block_number, block_hash, tx_hash, log_index, batch_index, event_name, token_id, from_address, to_address, amount, args, confirmed
+    FROM jsonb_populate_recordset(NULL::chain_events, p_events);
+
+    RETURN reorged_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Drift views for the indexer's reconciliation. security_invoker applies the
+-- caller's RLS, so only the service role can read them.
+
+-- Artworks whose recorded token_id disagrees with the confirmed TokenCreated
+-- events for their metadata URI, or whose token was never seen on-chain.
+CREATE OR REPLACE VIEW chain_token_drift WITH (security_invoker = true) AS
+SELECT
+    a.chain_id,
+    a.id AS artwork_id,
+    a.token_id AS recorded_token_id,
+    MIN(e.token_id) AS chain_token_id,
+    COUNT(e.token_id) AS chain_token_count
+FROM artworks a
+JOIN chain_events e
+    ON e.chain_id = a.chain_id AND e.event_name = 'TokenCreated' AND e.confirmed
+    AND e.args ->> 'metadataURI' = a.metadata_url
+GROUP BY a.chain_id, a.id, a.token_id
+HAVING a.token_id IS NULL OR NOT (a.token_id = ANY (ARRAY_AGG(e.token_id)))
+UNION ALL
+SELECT a.chain_id, a.id, a.token_id, NULL, 0
+FROM artworks a
+WHERE a.token_id IS NOT NULL
+    AND NOT EXISTS (
+        SELECT 1 FROM chain_events e
+        WHERE e.chain_id = a.chain_id AND e.event_name = 'TokenCreated' AND e.confirmed AND e.token_id = a.token_id
+    );
+
+-- Artworks with more editions minted on-chain than sold in the database
+CREATE OR REPLACE VIEW chain_supply_drift WITH (security_invoker = true) AS
+SELECT a.chain_id, a.id AS artwork_id, a.token_id, a.current_editions, m.minted AS chain_minted
+FROM artworks a
+JOIN (
+    SELECT chain_id, token_id, SUM(amount) AS minted
+    FROM chain_events
+    WHERE event_name = 'TokenMinted' AND confirmed
+    GROUP BY chain_id, token_id
+) m ON m.chain_id = a.chain_id AND m.token_id = a.token_id
+WHERE m.minted > a.current_editions;
+
+-- Token and wallet pairs where confirmed mints differ from purchases marked nft_minted
+CREATE OR REPLACE VIEW chain_mint_drift WITH (security_invoker = true) AS
+WITH chain AS (
+    SELECT chain_id, token_id, to_address AS wallet, SUM(amount) AS minted
+    FROM chain_events
+    WHERE event_name = 'TokenMinted' AND confirmed
+    GROUP BY chain_id, token_id, to_address
+), recorded AS (
+    SELECT a.chain_id, a.token_id, lower(p.buyer_wallet_address) AS wallet, COUNT(*) AS minted
+    FROM purchases p
+    JOIN artworks a ON a.id = p.artwork_id
+    WHERE p.nft_minted AND a.token_id IS NOT NULL
+    GROUP BY a.chain_id, a.token_id, lower(p.buyer_wallet_address)
+)
+SELECT
+    COALESCE(chain.chain_id, recorded.chain_id) AS chain_id,
+    COALESCE(chain.token_id, recorded.token_id) AS token_id,
+    COALESCE(chain.wallet, recorded.wallet) AS wallet,
+    COALESCE(chain.minted, 0) AS chain_minted,
+    COALESCE(recorded.minted, 0) AS recorded_minted
+FROM chain
+FULL OUTER JOIN recorded
+    ON recorded.chain_id = chain.chain_id AND recorded.token_id = chain.token_id AND recorded.wallet = chain.wallet
+WHERE COALESCE(chain.minted, 0) <> COALESCE(recorded.minted, 0);
+
+-- Private bucket for full-resolution originals; only the service role reads it, to stream paid downloads
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('artwork-originals', 'artwork-originals', false)
+ON CONFLICT (id) DO NOTHING;
\ No newline at end of file
@@ -0,0 +1,545 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+
+// Runs supabase-schema.sql in an in-process Postgres. Supabase's roles, their default
+// table grants and the auth/storage schemas it expects are stubbed first. Each test runs
+// in a transaction that is rolled back, so NOW() is fixed for the whole test; expired rows
+// are inserted with explicit past timestamps.
+const SUPABASE_STUBS = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.role() RETURNS TEXT AS $$ SELECT current_setting('request.jwt.claim.role', true) $$ LANGUAGE sql STABLE;
+  CREATE SCHEMA storage;
+  CREATE TABLE storage.buckets (id TEXT PRIMARY KEY, name TEXT, public BOOLEAN);
+`
+
+let db: PGlite
+
+async function value<T>(sql: string, params: unknown[] = []): Promise<T> {
+  const { rows } = await db.query<{ value: T }>(sql, params)
+  return rows[0]?.value
+}
+
+// Error a client role gets running the statement, or null if it succeeds
+async function errorAs(role: 'anon' | 'authenticated', sql: string, params: unknown[] = []): Promise<string | null> {
+  await db.exec('SAVEPOINT as_role')
+  try {
+    await db.exec(`SET LOCAL ROLE ${role}`)
+    await db.query(sql, params)
+    return null
+  } catch (error) {
+    return (error as Error).message
+  } finally {
+    await db.exec('ROLLBACK TO SAVEPOINT as_role')
+  }
+}
+
+async function createArtwork(maxEditions = 1, status = 'published', publishAt: string | null = null): Promise<number> {
+  const artistId = await value<number>(
+    `INSERT INTO artists (wallet_address) VALUES ('0x' || md5(random()::text)) RETURNING id AS value`
+  )
+  return value<number>(
+    `INSERT INTO artworks (artist_id, title, price_usd, max_editions, image_url, status, publish_at)
+     VALUES ($1, 'Dunes', 10, $2, 'https://example.com/dunes.jpg', $3, $4) RETURNING id AS value`,
+    [artistId, maxEditions, status, publishAt]
+  )
+}
+
+async function createPurchase(artworkId: number, buyerEmail = 'buyer@example.com', paymentStatus = 'completed'): Promise<number> {
+  return value<number>(
+    `INSERT INTO purchases (artwork_id, buyer_email, stripe_payment_intent_id, amount_paid_usd, payment_status)
+     VALUES ($1, $2, 'pi_' || md5(random()::text), 10, $3) RETURNING id AS value`,
+    [artworkId, buyerEmail, paymentStatus]
+  )
+}
+
+async function createDownloadToken(purchaseId: number, expiresAt = "NOW() + INTERVAL '1 day'"): Promise<number> {
+  return value<number>(
+    `INSERT INTO download_tokens (purchase_id, token, expires_at)
+     VALUES ($1, md5(random()::text), ${expiresAt}) RETURNING id AS value`,
+    [purchaseId]
+  )
+}
+
+beforeAll(async () => {
+  db = new PGlite()
+  await db.exec(SUPABASE_STUBS)
+  await db.exec(readFileSync(path.join(__dirname, 'supabase-schema.sql'), 'utf8'))
+}, 60_000)
+
+afterAll(async () => {
+  await db.close()
+})
+
+beforeEach(async () => {
+  await db.exec('BEGIN')
+})
+
+afterEach(async () => {
+  await db.exec('ROLLBACK')
+})
+
+describe('artwork columns', () => {
+  // Rows a signed-in wallet gets back from a query
+  async function rowsAs<T>(wallet: string, sql: string): Promise<T[]> {
+    await db.exec('SAVEPOINT as_wallet')
+    try {
+      await db.query(`SELECT set_config('request.jwt.claims', $1, true)`, [JSON.stringify({ sub: wallet })])
+      await db.exec('SET LOCAL ROLE authenticated')
+      return (await db.query<T>(sql)).rows
+    } finally {
+      await db.exec('ROLLBACK TO SAVEPOINT as_wallet')
+    }
+  }
+
+  async function createStoredArtwork(): Promise<{ id: number; wallet: string }> {
+    const id = await createArtwork()
+    await db.query(`UPDATE artworks SET original_path = 'originals/' || id WHERE id = $1`, [id])
+    const wallet = await value<string>(
+      `SELECT artists.wallet_address AS value FROM artworks JOIN artists ON artists.id = artworks.artist_id WHERE artworks.id = $1`,
+      [id]
+    )
+    return { id, wallet }
+  }
+
+  it('hides where originals are stored from signed-in wallets as well as anon', async () => {
+    for (const role of ['anon', 'authenticated'] as const) {
+      expect(await errorAs(role, 'SELECT original_path FROM artworks')).toMatch(/permission denied/)
+      expect(await errorAs(role, 'SELECT wallpaper_variants FROM artworks')).toMatch(/permission denied/)
+      expect(await errorAs(role, 'SELECT id, title, image_url FROM artworks')).toBeNull()
+    }
+  })
+
+  it('shows artists their own full rows in own_artworks', async () => {
+    const mine = await createStoredArtwork()
+    await createStoredArtwork()
+
+    expect(await rowsAs(mine.wallet, 'SELECT id, original_path FROM own_artworks'))
+      .toEqual([{ id: mine.id, original_path: `originals/${mine.id}` }])
+    expect(await rowsAs('0x52908400098527886e0f7030069857d2e4169ee7', 'SELECT id FROM own_artworks')).toEqual([])
+
+    await db.query(`SELECT set_config('request.jwt.claims', '{"role":"anon"}', true)`)
+    expect(await errorAs('anon', 'SELECT id FROM own_artworks')).toMatch(/permission denied/)
+  })
+})
+
+describe('edition reservations', () => {
+  async function reserve(artworkId: number, holdSeconds = 900) {
+    return value<number | null>(
+      `SELECT reserve_artwork_edition($1, 'buyer@example.com', $2) AS value`,
+      [artworkId, holdSeconds]
+    )
+  }
+
+  async function claim(sessionId: string, artworkId: number) {
+    return value<boolean>(`SELECT claim_reserved_edition($1, $2) AS value`, [sessionId, artworkId])
+  }
+
+  async function attachSession(reservationId: number, sessionId: string) {
+    await db.query(`UPDATE edition_reservations SET stripe_session_id = $2 WHERE id = $1`, [reservationId, sessionId])
+  }
+
+  it('holds no more editions than are left', async () => {
+    const artworkId = await createArtwork(2)
+
+    expect(await reserve(artworkId)).not.toBeNull()
+    expect(await reserve(artworkId)).not.toBeNull()
+    expect(await reserve(artworkId)).toBeNull()
+  })
+
+  it('stops counting expired holds', async () => {
+    const artworkId = await createArtwork(1)
+    await db.query(
+      `INSERT INTO edition_reservations (artwork_id, buyer_email, expires_at) VALUES ($1, 'a@example.com', NOW() - INTERVAL '1 minute')`,
+      [artworkId]
+    )
+
+    expect(await reserve(artworkId)).not.toBeNull()
+  })
+
+  it('refuses unknown artworks', async () => {
+    expect(await reserve(999999)).toBeNull()
+  })
+
+  it('sells the held edition once, however often the webhook retries', async () => {
+    const artworkId = await createArtwork(1)
+    await attachSession((await reserve(artworkId))!, 'cs_1')
+
+    expect(await claim('cs_1', artworkId)).toBe(true)
+    expect(await claim('cs_1', artworkId)).toBe(true)
+    expect(await value<number>(`SELECT current_editions AS value FROM artworks WHERE id = $1`, [artworkId])).toBe(1)
+    expect(await value<string>(`SELECT status AS value FROM edition_reservations WHERE stripe_session_id = 'cs_1'`)).toBe('converted')
+  })
+
+  it('still sells a lapsed hold while an edition is free', async () => {
+    const artworkId = await createArtwork(1)
+    await db.query(
+      `INSERT INTO edition_reservations (artwork_id, stripe_session_id, buyer_email, expires_at) VALUES ($1, 'cs_1', 'a@example.com', NOW() - INTERVAL '1 minute')`,
+      [artworkId]
+    )
+
+    expect(await claim('cs_1', artworkId)).toBe(true)
+  })
+
+  it('releases a lapsed hold when other checkouts hold the last edition', async () => {
+    const artworkId = await createArtwork(1)
+    await db.query(
+      `INSERT INTO edition_reservations (artwork_id, stripe_session_id, buyer_email, expires_at) VALUES ($1, 'cs_1', 'a@example.com', NOW() - INTERVAL '1 minute')`,
+      [artworkId]
+    )
+    await attachSession((await reserve(artworkId))!, 'cs_2')
+
+    expect(await claim('cs_1', artworkId)).toBe(false)
+    expect(await value<string>(`SELECT status AS value FROM edition_reservations WHERE stripe_session_id = 'cs_1'`)).toBe('released')
+    expect(await claim('cs_2', artworkId)).toBe(true)
+  })
+
+  it('can only be reserved and claimed by the service role', async () => {
+    const artworkId = await createArtwork(1)
+
+    for (const role of ['anon', 'authenticated'] as const) {
+      expect(await errorAs(role, `SELECT reserve_artwork_edition($1, 'a@example.com', 900)`, [artworkId]))
+        .toMatch(/permission denied for function/)
+      expect(await errorAs(role, `SELECT claim_reserved_edition('cs_made_up', $1)`, [artworkId]))
+        .toMatch(/permission denied for function/)
+    }
+  })
+})
+
+describe('release_artwork_edition', () => {
+  it('gives a sold edition back, never going below zero', async () => {
+    const artworkId = await createArtwork(2)
+    await db.query(`SELECT increment_artwork_editions($1)`, [artworkId])
+    await db.query(`SELECT release_artwork_edition($1)`, [artworkId])
+    await db.query(`SELECT release_artwork_edition($1)`, [artworkId])
+
+    expect(await value<number>(`SELECT current_editions AS value FROM artworks WHERE id = $1`, [artworkId])).toBe(0)
+  })
+
+  it('can only be called by the service role', async () => {
+    const artworkId = await createArtwork(1)
+
+    for (const role of ['anon', 'authenticated'] as const) {
+      expect(await errorAs(role, `SELECT release_artwork_edition($1)`, [artworkId])).toMatch(/permission denied for function/)
+    }
+  })
+})
+
+describe('record_download', () => {
+  const RESUME_KEY = 'a'.repeat(32)
+  const WINDOW = 24 * 60 * 60
+
+  async function download(tokenId: number, options: { counted?: boolean; variant?: string; resumeKey?: string } = {}) {
+    const { counted = true, variant = 'original', resumeKey = RESUME_KEY } = options
+    return value<number | null>(
+      `SELECT record_download($1, $2, $3, $4, $5, NULL, NULL, NULL) AS value`,
+      [tokenId, counted, variant, resumeKey, WINDOW]
+    )
+  }
+
+  async function downloadCount(tokenId: number) {
+    return value<number>(`SELECT download_count AS value FROM download_tokens WHERE id = $1`, [tokenId])
+  }
+
+  it('counts downloads up to the limit', async () => {
+    const tokenId = await createDownloadToken(await createPurchase(await createArtwork()))
+
+    for (let i = 0; i < 3; i++) {
+      expect(await download(tokenId, { resumeKey: `${i}`.repeat(32) })).not.toBeNull()
+    }
+    expect(await download(tokenId)).toBeNull()
+    expect(await downloadCount(tokenId)).toBe(3)
+  })
+
+  it('refuses revoked and expired tokens', async () => {
+    const purchaseId = await createPurchase(await createArtwork())
+    const revokedId = await createDownloadToken(purchaseId)
+    await db.query(`UPDATE download_tokens SET revoked_at = NOW() WHERE id = $1`, [revokedId])
+    const expiredId = await createDownloadToken(purchaseId, "NOW() - INTERVAL '1 second'")
+
+    expect(await download(revokedId)).toBeNull()
+    expect(await download(expiredId)).toBeNull()
+  })
+
+  it('lets a counted download resume for free', async () => {
+    const tokenId = await createDownloadToken(await createPurchase(await createArtwork()))
+    await download(tokenId)
+
+    expect(await download(tokenId, { counted: false })).not.toBeNull()
+    expect(await downloadCount(tokenId)).toBe(1)
+  })
+
+  it('refuses a resume without a matching counted download', async () => {
+    const tokenId = await createDownloadToken(await createPurchase(await createArtwork()))
+
+    expect(await download(tokenId, { counted: false })).toBeNull()
+
+    await download(tokenId, { variant: 'phone' })
+    expect(await download(tokenId, { counted: false, resumeKey: 'b'.repeat(32), variant: 'phone' })).toBeNull()
+    expect(await download(tokenId, { counted: false, variant: 'desktop' })).toBeNull()
+  })
+
+  it('refuses a resume of another token\'s download', async () => {
+    const purchaseId = await createPurchase(await createArtwork())
+    await download(await createDownloadToken(purchaseId))
+
+    expect(await download(await createDownloadToken(purchaseId), { counted: false })).toBeNull()
+  })
+
+  it('refuses a resume once the window has passed', async () => {
+    const purchaseId = await createPurchase(await createArtwork())
+    const tokenId = await createDownloadToken(purchaseId)
+    await db.query(
+      `INSERT INTO download_events (download_token_id, purchase_id, variant, counted, resume_key, created_at)
+       VALUES ($1, $2, 'original', true, $3, NOW() - INTERVAL '25 hours')`,
+      [tokenId, purchaseId, RESUME_KEY]
+    )
+
+    expect(await download(tokenId, { counted: false })).toBeNull()
+  })
+
+  it('refuses a resume once the token is revoked', async () => {
+    const tokenId = await createDownloadToken(await createPurchase(await createArtwork()))
+    await download(tokenId)
+    await db.query(`UPDATE download_tokens SET revoked_at = NOW() WHERE id = $1`, [tokenId])
+
+    expect(await download(tokenId, { counted: false })).toBeNull()
+  })
+})
+
+describe('create_order_lookup', () => {
+  async function lookup(email: string) {
+    return value<boolean>(
+      `SELECT create_order_lookup($1, md5(random()::text), 3600, 3) AS value`,
+      [email]
+    )
+  }
+
+  it('allows a few links an hour per email, ignoring case', async () => {
+    expect(await lookup('buyer@example.com')).toBe(true)
+    expect(await lookup('Buyer@Example.com')).toBe(true)
+    expect(await lookup('BUYER@example.com')).toBe(true)
+    expect(await lookup('buyer@example.com')).toBe(false)
+    expect(await lookup('other@example.com')).toBe(true)
+  })
+
+  it('stops counting links from over an hour ago', async () => {
+    await db.query(
+      `INSERT INTO order_lookups (token, buyer_email, expires_at, created_at)
+       SELECT md5(random()::text), 'buyer@example.com', NOW(), NOW() - INTERVAL '61 minutes' FROM generate_series(1, 3)`
+    )
+
+    expect(await lookup('buyer@example.com')).toBe(true)
+  })
+})
+
+describe('reissue_download_token', () => {
+  async function reissue(purchaseId: number) {
+    return value<boolean>(
+      `SELECT reissue_download_token($1, md5(random()::text), 86400, 2, 3) AS value`,
+      [purchaseId]
+    )
+  }
+
+  it('limits new links per purchase', async () => {
+    const purchaseId = await createPurchase(await createArtwork())
+
+    expect(await reissue(purchaseId)).toBe(true)
+    expect(await reissue(purchaseId)).toBe(true)
+    expect(await reissue(purchaseId)).toBe(false)
+    expect(await value<number>(`SELECT count(*)::int AS value FROM download_tokens WHERE purchase_id = $1 AND reissued`, [purchaseId])).toBe(2)
+  })
+
+  it('limits new links per email across purchases, ignoring case', async () => {
+    const artworkId = await createArtwork()
+    const first = await createPurchase(artworkId, 'buyer@example.com')
+    const second = await createPurchase(artworkId, 'Buyer@Example.com')
+
+    expect(await reissue(first)).toBe(true)
+    expect(await reissue(first)).toBe(true)
+    expect(await reissue(second)).toBe(true)
+    expect(await reissue(second)).toBe(false)
+    expect(await reissue(await createPurchase(artworkId, 'other@example.com'))).toBe(true)
+  })
+
+  it('ignores the original download token', async () => {
+    const purchaseId = await createPurchase(await createArtwork())
+    await createDownloadToken(purchaseId)
+    await createDownloadToken(purchaseId)
+
+    expect(await reissue(purchaseId)).toBe(true)
+  })
+
+  it.each(['pending', 'refunded', 'disputed'])('refuses %s purchases', async paymentStatus => {
+    expect(await reissue(await createPurchase(await createArtwork(), 'buyer@example.com', paymentStatus))).toBe(false)
+  })
+})
+
+describe('claim_jobs', () => {
+  async function createJob(key: string, columns: Record<string, unknown> = {}) {
+    const names = ['type', 'dedupe_key', ...Object.keys(columns)]
+    const values = ['send_download_email', key, ...Object.values(columns)]
+    await db.query(
+      `INSERT INTO jobs (${names.join(', ')}) VALUES (${names.map((_, i) => `$${i + 1}`).join(', ')})`,
+      values
+    )
+  }
+
+  async function claim(limit = 10) {
+    const { rows } = await db.query<{ dedupe_key: string; attempts: number; locked_by: string }>(
+      `SELECT dedupe_key, attempts, locked_by FROM claim_jobs('worker-1', $1, 300) ORDER BY dedupe_key`,
+      [limit]
+    )
+    return rows
+  }
+
+  it('leases due jobs and counts the attempt', async () => {
+    await createJob('due')
+    await createJob('later', { run_at: new Date(Date.now() + 60_000).toISOString() })
+    await createJob('done', { status: 'completed' })
+    await createJob('dead', { status: 'dead' })
+
+    expect(await claim()).toEqual([{ dedupe_key: 'due', attempts: 1, locked_by: 'worker-1' }])
+    expect(await claim()).toEqual([])
+  })
+
+  it('takes back jobs whose lease ran out', async () => {
+    await createJob('stale', { status: 'running', attempts: 1, locked_by: 'worker-0', locked_until: new Date(Date.now() - 60_000).toISOString() })
+    await createJob('held', { status: 'running', attempts: 1, locked_by: 'worker-0', locked_until: new Date(Date.now() + 60_000).toISOString() })
+
+    expect(await claim()).toEqual([{ dedupe_key: 'stale', attempts: 2, locked_by: 'worker-1' }])
+  })
+
+  it('claims the longest-waiting jobs first, up to the limit', async () => {
+    await createJob('newer', { run_at: new Date(Date.now() - 60_000).toISOString() })
+    await createJob('older', { run_at: new Date(Date.now() - 120_000).toISOString() })
+
+    expect((await claim(1)).map(job => job.dedupe_key)).toEqual(['older'])
+  })
+})
+
+describe('replace_chain_events', () => {
+  function event(blockNumber: number, blockHash: string, logIndex = 0) {
+    return {
+      chain_id: 84532,
+      block_number: blockNumber,
+      block_hash: blockHash,
+      tx_hash: `0xtx${blockNumber}`,
+      log_index: logIndex,
+      batch_index: 0,
+      event_name: 'TokenMinted',
+      token_id: 1,
+      from_address: null,
+      to_address: '0xbuyer',
+      amount: '1',
+      args: { tokenId: '1' },
+      confirmed: false
+    }
+  }
+
+  function replace(fromBlock: number, toBlock: number | null, events: object[]) {
+    return value<number>(
+      `SELECT replace_chain_events(84532, $1, $2, $3) AS value`,
+      [fromBlock, toBlock, JSON.stringify(events)]
+    )
+  }
+
+  async function storedBlocks() {
+    const { rows } = await db.query<{ block_number: number; block_hash: string; amount: string }>(
+      `SELECT block_number::int, block_hash, amount::text FROM chain_events ORDER BY block_number`
+    )
+    return rows
+  }
+
+  it('swaps a range for the fresh read and counts what the reorg dropped', async () => {
+    await replace(10, null, [event(10, '0xa'), event(11, '0xb'), event(20, '0xc')])
+
+    expect(await replace(10, 15, [event(10, '0xa'), event(12, '0xd')])).toBe(1)
+    expect(await storedBlocks()).toEqual([
+      { block_number: 10, block_hash: '0xa', amount: '1' },
+      { block_number: 12, block_hash: '0xd', amount: '1' },
+      { block_number: 20, block_hash: '0xc', amount: '1' }
+    ])
+  })
+
+  it('clears everything past the start when the range is open-ended', async () => {
+    await replace(10, null, [event(10, '0xa'), event(20, '0xc')])
+
+    expect(await replace(15, null, [])).toBe(1)
+    expect((await storedBlocks()).map(row => row.block_number)).toEqual([10])
+  })
+
+  it('leaves the stored events in place when the fresh read fails to store', async () => {
+    await replace(10, null, [event(10, '0xa')])
+
+    // The savepoint stands in for the transaction each RPC call runs in
+    await db.exec('SAVEPOINT failed_read')
+    await expect(replace(10, null, [event(11, '0xb'), event(11, '0xb')])).rejects.toThrow(/duplicate key/)
+    await db.exec('ROLLBACK TO SAVEPOINT failed_read')
+    expect((await storedBlocks()).map(row => row.block_hash)).toEqual(['0xa'])
+  })
+})
+
+describe('wallet leases', () => {
+  const WALLET = '0x52908400098527886e0f7030069857d2e4169ee7'
+
+  function acquire(holder: string, chainId = 84532) {
+    return value<boolean>(`SELECT acquire_wallet_lease($1, $2, $3, 60) AS value`, [chainId, WALLET, holder])
+  }
+
+  it('lets one holder send from a wallet at a time', async () => {
+    expect(await acquire('run-1')).toBe(true)
+    expect(await acquire('run-2')).toBe(false)
+    expect(await acquire('run-1')).toBe(true)
+    expect(await acquire('run-2', 8453)).toBe(true)
+  })
+
+  it('takes over a lease that ran out', async () => {
+    await db.query(
+      `INSERT INTO wallet_leases (chain_id, wallet_address, holder, locked_until) VALUES (84532, $1, 'run-1', $2)`,
+      [WALLET, new Date(Date.now() - 1000).toISOString()]
+    )
+
+    expect(await acquire('run-2')).toBe(true)
+  })
+
+  it('frees the wallet only for the holder that releases it', async () => {
+    await acquire('run-1')
+    await db.query(`SELECT release_wallet_lease(84532, $1, 'run-2')`, [WALLET])
+    expect(await acquire('run-2')).toBe(false)
+
+    await db.query(`SELECT release_wallet_lease(84532, $1, 'run-1')`, [WALLET])
+    expect(await acquire('run-2')).toBe(true)
+  })
+})
+
+describe('publish_due_artworks', () => {
+  it('publishes scheduled artworks whose time has come', async () => {
+    const due = await createArtwork(1, 'scheduled', new Date(Date.now() - 60_000).toISOString())
+    const later = await createArtwork(1, 'scheduled', new Date(Date.now() + 60_000).toISOString())
+    const draft = await createArtwork(1, 'draft', new Date(Date.now() - 60_000).toISOString())
+
+    expect(await value<number>(`SELECT publish_due_artworks() AS value`)).toBe(1)
+
+    const { rows } = await db.query<{ id: number; status: string; is_active: boolean }>(
+      `SELECT id, status, is_active FROM artworks WHERE id = ANY($1) ORDER BY id`,
+      [[due, later, draft]]
+    )
+    expect(rows).toEqual([
+      { id: due, status: 'published', is_active: true },
+      { id: later, status: 'scheduled', is_active: false },
+      { id: draft, status: 'draft', is_active: false }
+    ])
+  })
+
+  it('can only be called by the service role', async () => {
+    for (const role of ['anon', 'authenticated'] as const) {
+      expect(await errorAs(role, `SELECT publish_due_artworks()`)).toMatch(/permission denied for function/)
+    }
+  })
+})
@@ -27,7 +27,6 @@ if [ -f ".env.local" ]; then
         "NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY"
         "WEB3_STORAGE_TOKEN"
         "PRIVATE_KEY"
-        "BASE_RPC_URL"
     )
     missing_vars=()
     
@@ -65,7 +64,7 @@ if [ -f "contracts/ImNotArtNFT.sol" ]; then
     echo "✅ Smart contract found"
     
     # Check if contract address is set
-    if [ -f ".env.local" ] && grep -q "^NEXT_PUBLIC_CONTRACT_ADDRESS=0x" .env.local; then
+    if grep -q '"contractAddress": "0x' networks.json || grep -q "^CONTRACT_ADDRESS=0x" .env.local 2>/dev/null; then
         echo "✅ Contract address configured"
     else
         echo "⚠️  Contract not deployed yet"
@@ -107,7 +106,7 @@ if [ -f ".env.local" ] && [ ${#missing_vars[@]} -eq 0 ]; then
     env_status="✅ Environment: CONFIGURED"
 fi
 
-if grep -q "^NEXT_PUBLIC_CONTRACT_ADDRESS=0x[a-fA-F0-9]" .env.local 2>/dev/null; then
+if grep -q '"contractAddress": "0x' networks.json || grep -q "^CONTRACT_ADDRESS=0x[a-fA-F0-9]" .env.local 2>/dev/null; then
     contract_status="✅ Contract: DEPLOYED"
 fi
 